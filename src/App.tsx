@@ -1,5 +1,5 @@
 import React from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { createBrowserRouter, RouterProvider, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { AdminLayout } from './components/layout/AdminLayout';
 import { LoginPage } from './components/auth/LoginPage';
@@ -7,6 +7,10 @@ import { Dashboard } from './pages/Dashboard';
 import { ProductsPage } from './pages/ProductsPage';
 import { CreateProductPage } from './pages/CreateProductPage';
 import { EditProductPage } from './pages/EditProductPage';
+import { ProductDetailPage } from './pages/ProductDetailPage';
+import { ProductImportPage } from './pages/ProductImportPage';
+import { CategoriesPage } from './pages/CategoriesPage';
+import { MediaLibraryPage } from './pages/MediaLibraryPage';
 import { OrdersPage } from './pages/OrdersPage';
 import { OrderDetailPage } from './pages/OrderDetailPage';
 import UsersPage from './pages/UsersPage';
@@ -42,8 +46,11 @@ const AppRoutes: React.FC = () => {
                 <Route path="/" element={<Dashboard />} />
                 <Route path="/products" element={<ProductsPage />} />
                 <Route path="/products/new" element={<CreateProductPage />} />
+                <Route path="/products/import" element={<ProductImportPage />} />
+                <Route path="/products/:id" element={<ProductDetailPage />} />
                 <Route path="/products/:id/edit" element={<EditProductPage />} />
-                <Route path="/images" element={<div>Image Management (Coming Soon)</div>} />
+                <Route path="/categories" element={<CategoriesPage />} />
+                <Route path="/images" element={<MediaLibraryPage />} />
                 <Route path="/orders" element={<OrdersPage />} />
                 <Route path="/orders/:id" element={<OrderDetailPage />} />
                 <Route path="/users" element={<UsersPage />} />
@@ -58,12 +65,13 @@ const AppRoutes: React.FC = () => {
   );
 };
 
+// A data router is needed for useBlocker, which guards forms with unsaved changes
+const router = createBrowserRouter([{ path: '*', element: <AppRoutes /> }]);
+
 function App() {
   return (
     <AuthProvider>
-      <Router>
-        <AppRoutes />
-      </Router>
+      <RouterProvider router={router} />
     </AuthProvider>
   );
 }
@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { ChatBubbleBottomCenterTextIcon, SparklesIcon } from '@heroicons/react/24/outline';
+import { ProductImage, ProductImageDetailsInput } from '../../types';
+import { ALT_TEXT_MAX_LENGTH, CAPTION_MAX_LENGTH } from '../../services/imageAltText';
+
+interface ImageDetailsDialogProps {
+  isOpen: boolean;
+  image: ProductImage | null;
+  suggestedAltText: string;
+  isSubmitting?: boolean;
+  onClose: () => void;
+  onSubmit: (details: ProductImageDetailsInput) => void;
+}
+
+export const ImageDetailsDialog: React.FC<ImageDetailsDialogProps> = ({
+  isOpen,
+  image,
+  suggestedAltText,
+  isSubmitting = false,
+  onClose,
+  onSubmit,
+}) => {
+  const [altText, setAltText] = useState('');
+  const [caption, setCaption] = useState('');
+
+  useEffect(() => {
+    if (isOpen && image) {
+      // Images without alt text start from the suggestion so saving once fixes them
+      setAltText(image.alt_text || suggestedAltText);
+      setCaption(image.caption || '');
+    }
+  }, [isOpen, image, suggestedAltText]);
+
+  if (!isOpen || !image) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ alt_text: altText.trim() || null, caption: caption.trim() || null });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center p-6 border-b border-gray-200">
+          <img src={image.image_url} alt="" className="h-12 w-12 rounded-md object-cover border border-gray-200" />
+          <div className="ml-4">
+            <h2 className="text-lg font-medium text-gray-900">Alt Text & Caption</h2>
+            <p className="text-sm text-gray-500">Describe what the image shows for screen readers and search engines</p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <div className="flex items-center justify-between">
+              <label htmlFor="image_alt_text" className="block text-sm font-medium text-gray-700">
+                Alt text
+              </label>
+              <button
+                type="button"
+                onClick={() => setAltText(suggestedAltText)}
+                disabled={altText === suggestedAltText}
+                className="inline-flex items-center text-xs text-iguana-600 hover:text-iguana-800 disabled:text-gray-400"
+              >
+                <SparklesIcon className="h-3 w-3 mr-1" />
+                Use suggestion
+              </button>
+            </div>
+            <textarea
+              id="image_alt_text"
+              rows={2}
+              value={altText}
+              maxLength={ALT_TEXT_MAX_LENGTH}
+              onChange={(e) => setAltText(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              {altText.length}/{ALT_TEXT_MAX_LENGTH} · Suggested: {suggestedAltText}
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="image_caption" className="block text-sm font-medium text-gray-700">
+              Caption <span className="font-normal text-gray-500">(optional)</span>
+            </label>
+            <input
+              id="image_caption"
+              type="text"
+              value={caption}
+              maxLength={CAPTION_MAX_LENGTH}
+              onChange={(e) => setCaption(e.target.value)}
+              placeholder="Shown under the image in the storefront"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200 bg-gray-50">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-iguana-600 text-white rounded-md text-sm font-medium hover:bg-iguana-700 disabled:opacity-50 flex items-center"
+          >
+            <ChatBubbleBottomCenterTextIcon className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ImageDetailsDialog;
@@ -0,0 +1,373 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  ArrowPathIcon,
+  ArrowUturnLeftIcon,
+  ArrowUturnRightIcon,
+  ArrowsRightLeftIcon,
+  ArrowsUpDownIcon,
+  ScissorsIcon,
+  ViewfinderCircleIcon,
+} from '@heroicons/react/24/outline';
+import { FocalPoint } from '../../types';
+import {
+  ASPECT_RATIOS,
+  ImageEdits,
+  MAX_ZOOM,
+  clampFraction,
+  drawTransformed,
+  getCropRect,
+  getRotatedSize,
+  hasPixelEdits,
+  initialImageEdits,
+  loadImageSource,
+  renderEditedImage,
+  rotate,
+} from '../../services/imageEditing';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+
+export interface ImageEditResult {
+  // Null when only the focal point changed and the pixels can stay as they are
+  file: File | null;
+  focalPoint: FocalPoint;
+}
+
+interface ImageEditorProps {
+  isOpen: boolean;
+  // A file picked for upload or the URL of a stored image
+  source: File | string | null;
+  fileName: string;
+  initialFocalPoint?: FocalPoint;
+  isSubmitting?: boolean;
+  saveLabel?: string;
+  cancelLabel?: string;
+  onClose: () => void;
+  onSave: (result: ImageEditResult) => void;
+}
+
+const PREVIEW_SIZE = 480;
+
+type EditorMode = 'crop' | 'focal';
+
+export const ImageEditor: React.FC<ImageEditorProps> = ({
+  isOpen,
+  source,
+  fileName,
+  initialFocalPoint,
+  isSubmitting = false,
+  saveLabel = 'Save Image',
+  cancelLabel = 'Cancel',
+  onClose,
+  onSave,
+}) => {
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [edits, setEdits] = useState<ImageEdits>(initialImageEdits(initialFocalPoint));
+  const [mode, setMode] = useState<EditorMode>('crop');
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState('');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; center: FocalPoint } | null>(null);
+  // Only seeds the editor when an image is opened
+  const initialFocalPointRef = useRef(initialFocalPoint);
+  initialFocalPointRef.current = initialFocalPoint;
+
+  useEffect(() => {
+    if (!isOpen || !source) return;
+
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+    setBitmap(null);
+    setEdits(initialImageEdits(initialFocalPointRef.current));
+    setMode('crop');
+    setError('');
+
+    loadImageSource(source)
+      .then(result => {
+        loaded = result;
+        if (cancelled) {
+          result.close();
+        } else {
+          setBitmap(result);
+        }
+      })
+      .catch((err: any) => {
+        console.error('Error loading image for editing:', err);
+        if (!cancelled) setError(err.message || 'Failed to load image');
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.close();
+    };
+  }, [isOpen, source]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!bitmap || !canvas) return;
+
+    const rotated = getRotatedSize(bitmap.width, bitmap.height, edits.rotation);
+    const scale = Math.min(1, PREVIEW_SIZE / Math.max(rotated.width, rotated.height));
+    canvas.width = Math.round(rotated.width * scale);
+    canvas.height = Math.round(rotated.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    drawTransformed(context, bitmap, bitmap.width, bitmap.height, edits, scale);
+  }, [bitmap, edits]);
+
+  if (!isOpen || !source) return null;
+
+  const rotated = bitmap ? getRotatedSize(bitmap.width, bitmap.height, edits.rotation) : null;
+  const crop = rotated ? getCropRect(rotated.width, rotated.height, edits) : null;
+
+  const update = (changes: Partial<ImageEdits>) => setEdits(current => ({ ...current, ...changes }));
+
+  // Fractions of the preview under the pointer
+  const pointerPosition = (e: React.PointerEvent) => {
+    const bounds = previewRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - bounds.left) / bounds.width, y: (e.clientY - bounds.top) / bounds.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!rotated || !crop) return;
+    const position = pointerPosition(e);
+
+    if (mode === 'focal') {
+      update({
+        focalPoint: {
+          x: clampFraction((position.x * rotated.width - crop.x) / crop.width),
+          y: clampFraction((position.y * rotated.height - crop.y) / crop.height),
+        },
+      });
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      pointerX: position.x,
+      pointerY: position.y,
+      center: {
+        x: (crop.x + crop.width / 2) / rotated.width,
+        y: (crop.y + crop.height / 2) / rotated.height,
+      },
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !rotated) return;
+
+    const position = pointerPosition(e);
+    const moved = getCropRect(rotated.width, rotated.height, {
+      ...edits,
+      center: {
+        x: drag.center.x + position.x - drag.pointerX,
+        y: drag.center.y + position.y - drag.pointerY,
+      },
+    });
+    // Store the clamped centre so dragging back from an edge responds immediately
+    update({
+      center: {
+        x: (moved.x + moved.width / 2) / rotated.width,
+        y: (moved.y + moved.height / 2) / rotated.height,
+      },
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleSave = async () => {
+    if (!bitmap) return;
+
+    if (!hasPixelEdits(edits)) {
+      onSave({ file: null, focalPoint: edits.focalPoint });
+      return;
+    }
+
+    try {
+      setIsRendering(true);
+      setError('');
+      onSave({ file: await renderEditedImage(bitmap, edits, fileName), focalPoint: edits.focalPoint });
+    } catch (err: any) {
+      console.error('Error rendering edited image:', err);
+      setError(err.message || 'Failed to save edited image');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const toolButtonClass = (active = false) =>
+    `inline-flex items-center px-3 py-2 border rounded-md text-sm font-medium ${
+      active
+        ? 'border-iguana-500 bg-iguana-50 text-iguana-700'
+        : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+    }`;
+
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-full overflow-y-auto">
+        <div className="flex items-center p-6 border-b border-gray-200">
+          <div className="flex-shrink-0 flex items-center justify-center h-10 w-10 rounded-full bg-iguana-100">
+            <ScissorsIcon className="h-6 w-6 text-iguana-600" />
+          </div>
+          <div className="ml-4 min-w-0">
+            <h2 className="text-lg font-medium text-gray-900">Edit Image</h2>
+            <p className="text-sm text-gray-500 truncate">{fileName}</p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 p-3">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="flex items-center justify-center bg-gray-900 rounded-md p-4 min-h-[16rem]">
+            {!bitmap || !rotated || !crop ? (
+              !error && <LoadingSpinner />
+            ) : (
+              <div
+                ref={previewRef}
+                className={`relative overflow-hidden select-none touch-none ${
+                  mode === 'focal' ? 'cursor-crosshair' : 'cursor-move'
+                }`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              >
+                <canvas ref={canvasRef} className="block" />
+                <div
+                  className="absolute border-2 border-white pointer-events-none"
+                  style={{
+                    left: percent(crop.x, rotated.width),
+                    top: percent(crop.y, rotated.height),
+                    width: percent(crop.width, rotated.width),
+                    height: percent(crop.height, rotated.height),
+                    boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+                  }}
+                >
+                  <span
+                    className="absolute h-5 w-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white bg-iguana-500 bg-opacity-75 shadow"
+                    style={{ left: `${edits.focalPoint.x * 100}%`, top: `${edits.focalPoint.y * 100}%` }}
+                    title="Focal point"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {ASPECT_RATIOS.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => update({ aspect: option.value, center: { x: 0.5, y: 0.5 } })}
+                className={toolButtonClass(edits.aspect === option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={() => update({ rotation: rotate(edits.rotation, -1) })}
+              className={toolButtonClass()}
+              title="Rotate left"
+            >
+              <ArrowUturnLeftIcon className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => update({ rotation: rotate(edits.rotation, 1) })}
+              className={toolButtonClass()}
+              title="Rotate right"
+            >
+              <ArrowUturnRightIcon className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => update({ flipX: !edits.flipX })}
+              className={toolButtonClass(edits.flipX)}
+              title="Flip horizontally"
+            >
+              <ArrowsRightLeftIcon className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => update({ flipY: !edits.flipY })}
+              className={toolButtonClass(edits.flipY)}
+              title="Flip vertically"
+            >
+              <ArrowsUpDownIcon className="h-4 w-4" />
+            </button>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 px-2">
+              <span>Zoom</span>
+              <input
+                type="range"
+                min={1}
+                max={MAX_ZOOM}
+                step={0.1}
+                value={edits.zoom}
+                onChange={(e) => update({ zoom: Number(e.target.value) })}
+                className="accent-iguana-600"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => setEdits(initialImageEdits(initialFocalPoint))}
+              className={toolButtonClass()}
+              title="Reset edits"
+            >
+              <ArrowPathIcon className="h-4 w-4" />
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between rounded-md bg-gray-50 p-3">
+            <p className="text-sm text-gray-600">
+              {mode === 'focal'
+                ? 'Click the part of the piece that must stay in frame when the storefront crops the image.'
+                : 'Drag the frame to choose what is kept.'}
+            </p>
+            <button
+              type="button"
+              onClick={() => setMode(mode === 'focal' ? 'crop' : 'focal')}
+              className={`${toolButtonClass(mode === 'focal')} ml-4 flex-shrink-0`}
+            >
+              <ViewfinderCircleIcon className="h-4 w-4 mr-2" />
+              {mode === 'focal' ? 'Done' : 'Set Focal Point'}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200 bg-gray-50">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSubmitting || isRendering}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            {cancelLabel}
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!bitmap || isSubmitting || isRendering}
+            className="px-4 py-2 bg-iguana-600 text-white rounded-md text-sm font-medium hover:bg-iguana-700 disabled:opacity-50"
+          >
+            {isSubmitting || isRendering ? 'Saving...' : saveLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditor;
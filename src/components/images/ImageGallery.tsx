@@ -1,7 +1,12 @@
 import React, { useState } from 'react';
-import { useAuth } from '../../contexts/AuthContext';
+import { useAdminApi } from '../../services/api';
+import { replaceProductImage } from '../../services/imageEditing';
+import { getAltText, isMissingAltText, suggestAltText } from '../../services/imageAltText';
+import { ProductImage, ProductImageDetailsInput } from '../../types';
 import { LoadingSpinner } from '../ui/LoadingSpinner';
 import { ConfirmationDialog } from '../ui/ConfirmationDialog';
+import { ImageEditor, ImageEditResult } from './ImageEditor';
+import { ImageDetailsDialog } from './ImageDetailsDialog';
 import {
   EyeIcon,
   PencilIcon,
@@ -10,26 +15,20 @@ import {
   Bars3Icon,
   XMarkIcon,
   CheckIcon,
+  ChatBubbleBottomCenterTextIcon,
+  ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
 import { StarIcon as StarIconSolid } from '@heroicons/react/24/solid';
 
-interface ProductImage {
-  id: string;
-  product_id: string;
-  image_url: string;
-  is_main: boolean;
-  display_order: number;
-  content_type?: string;
-  file_size?: number;
-  created_at: string;
-  updated_at: string;
-}
-
 interface ImageGalleryProps {
   productId: string;
   images: ProductImage[];
   onImagesChange: (images: ProductImage[]) => void;
   onError: (error: string) => void;
+  // Used to suggest alt text
+  productName?: string;
+  // Display name of the product's category
+  productCategory?: string;
 }
 
 export const ImageGallery: React.FC<ImageGalleryProps> = ({
@@ -37,12 +36,18 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
   images,
   onImagesChange,
   onError,
+  productName = '',
+  productCategory,
 }) => {
-  const { apiRequest } = useAuth();
+  const api = useAdminApi();
   const [selectedImage, setSelectedImage] = useState<ProductImage | null>(null);
   const [isReordering, setIsReordering] = useState(false);
   const [reorderImages, setReorderImages] = useState<ProductImage[]>([]);
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const [editingImage, setEditingImage] = useState<ProductImage | null>(null);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [detailsImage, setDetailsImage] = useState<ProductImage | null>(null);
+  const [isSavingDetails, setIsSavingDetails] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<{ isOpen: boolean; image: ProductImage | null }>({
     isOpen: false,
     image: null,
@@ -50,9 +55,7 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
 
   const handleSetPrimary = async (imageId: string) => {
     try {
-      await apiRequest(`/admin/products/${productId}/images/${imageId}`, {
-        method: 'PUT',
-      });
+      await api.images.setMain(productId, imageId);
 
       // Update local state
       const updatedImages = images.map(img => ({
@@ -69,9 +72,7 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
   const handleDelete = async (imageId: string) => {
     setIsDeleting(imageId);
     try {
-      await apiRequest(`/admin/products/${productId}/images/${imageId}`, {
-        method: 'DELETE',
-      });
+      await api.images.remove(productId, imageId);
 
       // Update local state
       const updatedImages = images.filter(img => img.id !== imageId);
@@ -84,6 +85,50 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
     }
   };
 
+  const handleSaveEdit = async ({ file, focalPoint }: ImageEditResult) => {
+    if (!editingImage) return;
+
+    try {
+      setIsSavingEdit(true);
+      if (file) {
+        onImagesChange(await replaceProductImage(api, productId, images, editingImage, file, focalPoint));
+      } else {
+        const updated = await api.images.setFocalPoint(productId, editingImage.id, focalPoint);
+        onImagesChange(images.map(img => (img.id === updated.id ? updated : img)));
+      }
+      setEditingImage(null);
+    } catch (error) {
+      console.error('Error saving edited image:', error);
+      onError('Failed to save edited image');
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  const handleSaveDetails = async (details: ProductImageDetailsInput) => {
+    if (!detailsImage) return;
+
+    try {
+      setIsSavingDetails(true);
+      const updated = await api.images.updateDetails(productId, detailsImage.id, details);
+      onImagesChange(images.map(img => (img.id === updated.id ? updated : img)));
+      setDetailsImage(null);
+    } catch (error) {
+      console.error('Error saving image details:', error);
+      onError('Failed to save alt text');
+    } finally {
+      setIsSavingDetails(false);
+    }
+  };
+
+  const altTextContext = (image: ProductImage) => ({
+    productName,
+    category: productCategory,
+    position: images.findIndex(img => img.id === image.id) + 1,
+  });
+
+  const missingAltCount = images.filter(isMissingAltText).length;
+
   const handleStartReorder = () => {
     setReorderImages([...images]);
     setIsReordering(true);
@@ -97,11 +142,7 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
   const handleSaveReorder = async () => {
     try {
       const imageOrder = reorderImages.map(img => img.id);
-      await apiRequest(`/admin/products/${productId}/images/reorder`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(imageOrder),
-      });
+      await api.images.reorder(productId, imageOrder);
 
       // Update local state with new order
       const updatedImages = reorderImages.map((img, index) => ({
@@ -134,9 +175,17 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
     <div className="space-y-4">
       {/* Header */}
       <div className="flex items-center justify-between">
-        <h3 className="text-lg font-medium text-gray-900">
-          Product Images ({images.length})
-        </h3>
+        <div className="flex items-center space-x-3">
+          <h3 className="text-lg font-medium text-gray-900">
+            Product Images ({images.length})
+          </h3>
+          {missingAltCount > 0 && (
+            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+              <ExclamationTriangleIcon className="h-3 w-3 mr-1" />
+              {missingAltCount} missing alt text
+            </span>
+          )}
+        </div>
         <div className="flex space-x-2">
           {!isReordering && images.length > 1 && (
             <button
@@ -207,7 +256,7 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
               <div className="aspect-square relative">
                 <img
                   src={image.image_url}
-                  alt={`Product image ${index + 1}`}
+                  alt={getAltText(image, altTextContext(image))}
                   className="w-full h-full object-cover"
                 />
                 
@@ -221,6 +270,19 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
                   </div>
                 )}
 
+                {/* Missing Alt Text Badge */}
+                {isMissingAltText(image) && (
+                  <div className="absolute top-2 right-2">
+                    <span
+                      className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800"
+                      title="Screen readers and search engines get a generic description until alt text is added"
+                    >
+                      <ExclamationTriangleIcon className="h-3 w-3 mr-1" />
+                      No alt text
+                    </span>
+                  </div>
+                )}
+
                 {/* Loading Overlay */}
                 {isDeleting === image.id && (
                   <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center">
@@ -241,6 +303,24 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
                         <EyeIcon className="h-4 w-4" />
                       </button>
                       
+                      <button
+                        type="button"
+                        onClick={() => setEditingImage(image)}
+                        className="p-2 bg-white rounded-full text-gray-700 hover:bg-gray-100"
+                        title="Crop, rotate or set focal point"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+
+                      <button
+                        type="button"
+                        onClick={() => setDetailsImage(image)}
+                        className="p-2 bg-white rounded-full text-gray-700 hover:bg-gray-100"
+                        title="Edit alt text and caption"
+                      >
+                        <ChatBubbleBottomCenterTextIcon className="h-4 w-4" />
+                      </button>
+
                       {!image.is_main && (
                         <button
                           type="button"
@@ -267,6 +347,18 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
 
               {/* Image Info */}
               <div className="p-2 text-xs text-gray-600">
+                <button
+                  type="button"
+                  onClick={() => setDetailsImage(image)}
+                  disabled={isReordering}
+                  className={`block w-full text-left truncate hover:underline ${
+                    isMissingAltText(image) ? 'text-orange-700' : 'text-gray-900'
+                  }`}
+                  title={image.alt_text || 'Add alt text'}
+                >
+                  {image.alt_text || 'Add alt text'}
+                </button>
+                {image.caption && <p className="truncate italic">{image.caption}</p>}
                 <p className="truncate">{image.content_type}</p>
                 {image.file_size && (
                   <p>{formatFileSize(image.file_size)}</p>
@@ -291,7 +383,7 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
               </button>
               <img
                 src={selectedImage.image_url}
-                alt="Product image preview"
+                alt={getAltText(selectedImage, altTextContext(selectedImage))}
                 className="max-w-full max-h-full object-contain"
               />
             </div>
@@ -299,6 +391,27 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
         </div>
       )}
 
+      {/* Image Editor */}
+      <ImageEditor
+        isOpen={editingImage !== null}
+        source={editingImage?.image_url || null}
+        fileName={editingImage?.image_url.split('?')[0].split('/').pop() || 'image'}
+        initialFocalPoint={editingImage?.focal_point}
+        isSubmitting={isSavingEdit}
+        onClose={() => setEditingImage(null)}
+        onSave={handleSaveEdit}
+      />
+
+      {/* Alt Text & Caption */}
+      <ImageDetailsDialog
+        isOpen={detailsImage !== null}
+        image={detailsImage}
+        suggestedAltText={detailsImage ? suggestAltText(altTextContext(detailsImage)) : ''}
+        isSubmitting={isSavingDetails}
+        onClose={() => setDetailsImage(null)}
+        onSubmit={handleSaveDetails}
+      />
+
       {/* Delete Confirmation Dialog */}
       <ConfirmationDialog
         isOpen={deleteConfirm.isOpen}
@@ -1,27 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { useAuth } from '../../contexts/AuthContext';
+import { useAdminApi } from '../../services/api';
+import { ProductImage } from '../../types';
 import { LoadingSpinner } from '../ui/LoadingSpinner';
 import { ImageUpload } from './ImageUpload';
 import { ImageGallery } from './ImageGallery';
 import { XMarkIcon } from '@heroicons/react/24/outline';
 
-interface ProductImage {
-  id: string;
-  product_id: string;
-  image_url: string;
-  is_main: boolean;
-  display_order: number;
-  content_type?: string;
-  file_size?: number;
-  created_at: string;
-  updated_at: string;
-}
-
 interface ImageManagementModalProps {
   isOpen: boolean;
   onClose: () => void;
   productId: string;
   productName: string;
+  // Display name of the product's category, used to suggest alt text
+  productCategory?: string;
   initialImages?: ProductImage[];
   onImagesChange?: (images: ProductImage[]) => void;
 }
@@ -31,10 +22,11 @@ export const ImageManagementModal: React.FC<ImageManagementModalProps> = ({
   onClose,
   productId,
   productName,
+  productCategory,
   initialImages = [],
   onImagesChange,
 }) => {
-  const { apiRequest } = useAuth();
+  const api = useAdminApi();
   const [images, setImages] = useState<ProductImage[]>(initialImages);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -52,10 +44,9 @@ export const ImageManagementModal: React.FC<ImageManagementModalProps> = ({
     setError(null);
     
     try {
-      const imagesData = await apiRequest(`/admin/products/${productId}/images`);
-      const safeImagesData = Array.isArray(imagesData) ? imagesData : [];
-      setImages(safeImagesData);
-      onImagesChange?.(safeImagesData);
+      const imagesData = await api.images.list(productId);
+      setImages(imagesData);
+      onImagesChange?.(imagesData);
     } catch (error) {
       console.error('Error loading images:', error);
       setError('Failed to load images');
@@ -166,6 +157,8 @@ export const ImageManagementModal: React.FC<ImageManagementModalProps> = ({
                   images={images}
                   onImagesChange={handleImagesChange}
                   onError={handleError}
+                  productName={productName}
+                  productCategory={productCategory}
                 />
               ) : (
                 <ImageUpload
@@ -1,6 +1,10 @@
-import React, { useState, useRef, useCallback } from 'react';
-import { useAuth } from '../../contexts/AuthContext';
+import React, { useState, useRef, useCallback, useMemo } from 'react';
+import { useAdminApi } from '../../services/api';
+import { ProductImage } from '../../types';
+import { DEFAULT_IMAGE_PROCESSING, ImageProcessingOptions, processImage } from '../../services/imageProcessing';
+import { UploadStrategy, createUploadStrategy, uploadImage } from '../../services/imageUploads';
 import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { ImageEditor, ImageEditResult } from './ImageEditor';
 import { 
   CloudArrowUpIcon, 
   XMarkIcon, 
@@ -10,27 +14,35 @@ import {
 
 interface ImageUploadProps {
   productId: string;
-  onUploadComplete: (image: any) => void;
+  onUploadComplete: (image: ProductImage) => void;
   onUploadError: (error: string) => void;
   maxFiles?: number;
   acceptedTypes?: string[];
+  // Largest file accepted for upload, checked after resizing
   maxSizeBytes?: number;
   currentImageCount?: number;
+  processing?: ImageProcessingOptions;
+  // Where files are stored; defaults to the strategy configured for the environment
+  strategy?: UploadStrategy;
 }
 
 interface UploadProgress {
   file: File;
+  // The resized, re-encoded copy that is actually uploaded
+  processedFile?: File;
+  // Crop and focal point chosen in the editor, kept so a retry uploads the same result
+  edit?: ImageEditResult;
   progress: number;
-  status: 'uploading' | 'success' | 'error';
+  status: 'processing' | 'uploading' | 'success' | 'error';
   error?: string;
-  imageKey?: string;
+  // Set once a failed attempt is retried automatically
+  attempt?: number;
 }
 
 const DEFAULT_ACCEPTED_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
 const DEFAULT_MAX_SIZE = 10 * 1024 * 1024; // 10MB
-
-// Environment detection - you can also get this from config
-const isProduction = process.env.NODE_ENV === 'production' || process.env.REACT_APP_ENV === 'production';
+// Originals are only held in memory for resizing, but very large files can still exhaust it
+const MAX_SOURCE_SIZE = 50 * 1024 * 1024; // 50MB
 
 export const ImageUpload: React.FC<ImageUploadProps> = ({
   productId,
@@ -40,10 +52,16 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
   acceptedTypes = DEFAULT_ACCEPTED_TYPES,
   maxSizeBytes = DEFAULT_MAX_SIZE,
   currentImageCount = 0,
+  processing = DEFAULT_IMAGE_PROCESSING,
+  strategy,
 }) => {
-  const { apiRequest } = useAuth();
+  const api = useAdminApi();
+  const uploadStrategy = useMemo(() => strategy || createUploadStrategy(api), [strategy, api]);
   const [isDragOver, setIsDragOver] = useState(false);
   const [uploads, setUploads] = useState<UploadProgress[]>([]);
+  const [editBeforeUpload, setEditBeforeUpload] = useState(false);
+  // Files waiting to be opened in the editor, first one is being edited
+  const [editQueue, setEditQueue] = useState<File[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const validateFile = (file: File): string | null => {
@@ -51,267 +69,116 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
       return `File type ${file.type} is not supported. Allowed types: ${acceptedTypes.join(', ')}`;
     }
     
-    if (file.size > maxSizeBytes) {
-      return `File size ${(file.size / 1024 / 1024).toFixed(2)}MB exceeds maximum size of ${(maxSizeBytes / 1024 / 1024).toFixed(2)}MB`;
+    if (file.size > MAX_SOURCE_SIZE) {
+      return `File size ${(file.size / 1024 / 1024).toFixed(2)}MB exceeds maximum size of ${(MAX_SOURCE_SIZE / 1024 / 1024).toFixed(2)}MB`;
     }
     
     return null;
   };
 
   /**
-   * Local storage upload (for development)
-   * Uses the existing backend memory upload via POST endpoint
+   * Resizes and re-encodes a file before upload, tracking it in the progress list.
+   * Files saved from the editor are already resized and are only size-checked.
+   * Returns the file to upload, or null when the file was rejected.
    */
-  const uploadFileLocal = async (file: File) => {
+  const prepareUpload = async (file: File, edit?: ImageEditResult): Promise<File | null> => {
     const validationError = validateFile(file);
     if (validationError) {
       onUploadError(validationError);
-      return;
+      return null;
     }
 
-    const newUpload: UploadProgress = {
-      file,
-      progress: 0,
-      status: 'uploading',
-    };
-
-    setUploads(prev => [...prev, newUpload]);
+    setUploads(prev => [...prev, { file, edit, progress: 0, status: 'processing' }]);
 
     try {
-      // Step 1: Generate upload URL (your existing POST endpoint)
-      const uploadResponse = await apiRequest(`/admin/products/${productId}/images/generate-upload-url`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          filename: file.name,
-          contentType: file.type,
-        }),
-      });
-
-      const { uploadUrl, imageKey } = uploadResponse;
-
-      // Step 2: Upload file to local storage via backend
-      const uploadPromise = new Promise<void>((resolve, reject) => {
-        const xhr = new XMLHttpRequest();
-        
-        xhr.upload.addEventListener('progress', (progressEvent) => {
-          if (progressEvent.lengthComputable) {
-            const progress = Math.round((progressEvent.loaded * 100) / progressEvent.total);
-            setUploads(prev => 
-              prev.map(upload => 
-                upload.file === file 
-                  ? { ...upload, progress }
-                  : upload
-              )
-            );
-          }
-        });
-
-        xhr.onload = () => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            resolve();
-          } else {
-            reject(new Error(`Upload failed with status ${xhr.status}`));
-          }
-        };
-        
-        xhr.onerror = () => reject(new Error('Upload failed'));
-        xhr.open('PUT', uploadUrl);
-        xhr.setRequestHeader('Content-Type', file.type);
-        xhr.send(file);
-      });
-
-      await uploadPromise;
-
-      // Step 3: Confirm upload (same for both local and S3)
-      const confirmResponse = await apiRequest(`/admin/products/${productId}/images/confirm`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          imageKey,
-          isMain: (currentImageCount || 0) === 0,
-        }),
-      });
+      const processedFile = edit?.file || (await processImage(file, processing)).file;
+      if (processedFile.size > maxSizeBytes) {
+        throw new Error(`${file.name} is still ${formatFileSize(processedFile.size)} after resizing, above the maximum of ${formatFileSize(maxSizeBytes)}`);
+      }
 
-      // Update upload status
-      setUploads(prev => 
-        prev.map(upload => 
-          upload.file === file 
-            ? { ...upload, status: 'success', progress: 100, imageKey }
+      setUploads(prev =>
+        prev.map(upload =>
+          upload.file === file
+            ? { ...upload, processedFile, status: 'uploading' }
             : upload
         )
       );
-
-      onUploadComplete(confirmResponse);
-
-      // Clean up completed upload after 3 seconds
-      setTimeout(() => {
-        setUploads(prev => prev.filter(upload => upload.file !== file));
-      }, 3000);
-
+      return processedFile;
     } catch (error) {
-      console.error('Local upload error:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Upload failed';
-      
-      setUploads(prev => 
-        prev.map(upload => 
-          upload.file === file 
+      console.error('Image processing error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Image processing failed';
+
+      setUploads(prev =>
+        prev.map(upload =>
+          upload.file === file
             ? { ...upload, status: 'error', error: errorMessage }
             : upload
         )
       );
-      
+
       onUploadError(errorMessage);
+      return null;
     }
   };
 
-  /**
-   * S3 upload (for production)
-   * Uses presigned URLs for direct S3 upload
-   */
-  const uploadFileS3 = async (file: File) => {
-    const validationError = validateFile(file);
-    if (validationError) {
-      onUploadError(validationError);
-      return;
-    }
+  const uploadFile = async (file: File, edit?: ImageEditResult) => {
+    const processedFile = await prepareUpload(file, edit);
+    if (!processedFile) return;
 
-    const newUpload: UploadProgress = {
-      file,
-      progress: 0,
-      status: 'uploading',
-    };
-
-    setUploads(prev => [...prev, newUpload]);
+    const updateUpload = (changes: Partial<UploadProgress>) =>
+      setUploads(prev => prev.map(upload => (upload.file === file ? { ...upload, ...changes } : upload)));
 
     try {
-      // Step 1: Get presigned upload URL from your API
-      const imageType = (currentImageCount || 0) === 0 ? 'main' : 'gallery';
-      const uploadUrlResponse = await apiRequest(
-        `/admin/products/${productId}/images/generate-upload-url?content_type=${encodeURIComponent(file.type)}&product_id=${productId}&type=${imageType}`,
-        { method: 'GET' }
-      );
-
-      const { upload_url, key: imageKey } = uploadUrlResponse;
-      if (!upload_url || !imageKey) {
-        throw new Error('Failed to get upload URL from server');
-      }
-
-      // Step 2: Upload file directly to S3
-      const uploadPromise = new Promise<void>((resolve, reject) => {
-        const xhr = new XMLHttpRequest();
-        
-        // Track upload progress
-        xhr.upload.addEventListener('progress', (progressEvent) => {
-          if (progressEvent.lengthComputable) {
-            const progress = Math.round((progressEvent.loaded * 100) / progressEvent.total);
-            setUploads(prev => 
-              prev.map(upload => 
-                upload.file === file 
-                  ? { ...upload, progress }
-                  : upload
-              )
-            );
-          }
-        });
-
-        xhr.onload = () => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            resolve();
-          } else {
-            reject(new Error(`S3 upload failed with status ${xhr.status}: ${xhr.responseText}`));
-          }
-        };
-
-        xhr.onerror = () => {
-          reject(new Error('S3 upload failed - network error'));
-        };
-
-        xhr.ontimeout = () => {
-          reject(new Error('S3 upload failed - timeout'));
-        };
-
-        // Configure the request for S3
-        xhr.open('PUT', upload_url);
-        xhr.setRequestHeader('Content-Type', file.type);
-        xhr.timeout = 120000; // 2 minutes timeout
-        
-        // Send the file
-        xhr.send(file);
+      const image = await uploadImage(api, uploadStrategy, {
+        productId,
+        file: processedFile,
+        isMain: (currentImageCount || 0) === 0,
+        focalPoint: edit?.focalPoint,
+        onProgress: progress => updateUpload({ progress }),
+        onRetry: attempt => updateUpload({ attempt }),
       });
 
-      await uploadPromise;
-
-      // Step 3: Confirm upload with your backend (same as local)
-      const confirmResponse = await apiRequest(`/admin/products/${productId}/images/confirm`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          imageKey,
-          isMain: (currentImageCount || 0) === 0,
-        }),
-      });
-
-      // Update upload status to success
-      setUploads(prev => 
-        prev.map(upload => 
-          upload.file === file 
-            ? { ...upload, status: 'success', progress: 100, imageKey }
-            : upload
-        )
-      );
-
-      onUploadComplete(confirmResponse);
+      updateUpload({ status: 'success', progress: 100 });
+      onUploadComplete(image);
 
       // Clean up completed upload after 3 seconds
       setTimeout(() => {
         setUploads(prev => prev.filter(upload => upload.file !== file));
       }, 3000);
-
     } catch (error) {
-      console.error('S3 upload error:', error);
+      console.error(`${uploadStrategy.label} upload error:`, error);
       const errorMessage = error instanceof Error ? error.message : 'Upload failed';
-      
-      // Update upload status to error
-      setUploads(prev => 
-        prev.map(upload => 
-          upload.file === file 
-            ? { ...upload, status: 'error', error: errorMessage }
-            : upload
-        )
-      );
-
+      updateUpload({ status: 'error', error: errorMessage });
       onUploadError(errorMessage);
     }
   };
 
-  // Main upload function that chooses the right implementation
-  const uploadFile = async (file: File) => {
-    if (isProduction) {
-      console.log('Using S3 upload for production environment');
-      await uploadFileS3(file);
-    } else {
-      console.log('Using local storage upload for development environment');
-      await uploadFileLocal(file);
-    }
-  };
-
   const handleFiles = useCallback(async (files: FileList) => {
     const fileArray = Array.from(files);
     
     // Check if adding these files would exceed the maximum
-    if (uploads.length + fileArray.length + (currentImageCount || 0) > maxFiles) {
+    if (uploads.length + editQueue.length + fileArray.length + (currentImageCount || 0) > maxFiles) {
       onUploadError(`Cannot upload more than ${maxFiles} images per product`);
       return;
     }
 
+    if (editBeforeUpload) {
+      const editable = fileArray.filter(file => {
+        const validationError = validateFile(file);
+        if (validationError) onUploadError(validationError);
+        return !validationError;
+      });
+      setEditQueue(prev => [...prev, ...editable]);
+      return;
+    }
+
     // Upload files sequentially to avoid overwhelming the server
     for (const file of fileArray) {
       await uploadFile(file);
       // Small delay between uploads
       await new Promise(resolve => setTimeout(resolve, 500));
     }
-  }, [uploads.length, currentImageCount, maxFiles]);
+  }, [uploads.length, editQueue.length, editBeforeUpload, currentImageCount, maxFiles]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -346,10 +213,16 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
     setUploads(prev => prev.filter(upload => upload.file !== file));
   };
 
-  const retryUpload = (file: File) => {
+  const retryUpload = ({ file, edit }: UploadProgress) => {
     // Remove the failed upload and try again
     setUploads(prev => prev.filter(upload => upload.file !== file));
-    uploadFile(file);
+    uploadFile(file, edit);
+  };
+
+  const handleEditorSave = (edit: ImageEditResult) => {
+    const [file] = editQueue;
+    setEditQueue(prev => prev.slice(1));
+    uploadFile(file, edit);
   };
 
   const formatFileSize = (bytes: number) => {
@@ -359,7 +232,7 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
   return (
     <div className="space-y-4">
       {/* Environment indicator (only shown in development) */}
-      {!isProduction && (
+      {uploadStrategy.kind === 'local' && (
         <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3">
           <div className="flex">
             <div className="ml-3">
@@ -399,12 +272,15 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
             Click to upload or drag and drop
           </p>
           <p className="text-xs text-gray-500 mt-1">
-            {acceptedTypes.join(', ')} up to {formatFileSize(maxSizeBytes)}
+            {acceptedTypes.join(', ')} up to {formatFileSize(MAX_SOURCE_SIZE)}
+          </p>
+          <p className="text-xs text-gray-500">
+            Resized to {processing.maxDimension}px and saved as {processing.format.toUpperCase()} before upload
           </p>
           <p className="text-xs text-gray-500">
             Maximum {maxFiles} images per product
           </p>
-          {isProduction && (
+          {(uploadStrategy.kind === 's3' || uploadStrategy.kind === 's3-multipart') && (
             <p className="text-xs text-green-600 mt-1">
               ✓ Direct upload to cloud storage
             </p>
@@ -412,11 +288,21 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
         </div>
       </div>
 
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={editBeforeUpload}
+          onChange={(e) => setEditBeforeUpload(e.target.checked)}
+          className="h-4 w-4 text-iguana-600 border-gray-300 rounded focus:ring-iguana-500"
+        />
+        <span className="ml-2">Crop, rotate and set the focal point before uploading</span>
+      </label>
+
       {/* Upload Progress */}
       {uploads.length > 0 && (
         <div className="space-y-2">
           <h4 className="text-sm font-medium text-gray-900">
-            Upload Progress {isProduction ? '(S3)' : '(Local)'}
+            Upload Progress ({uploadStrategy.label})
           </h4>
           {uploads.map((upload, index) => (
             <div key={`${upload.file.name}-${index}`} className="bg-white border rounded-lg p-3 shadow-sm">
@@ -426,12 +312,20 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
                     {upload.file.name}
                   </div>
                   <div className="text-xs text-gray-500">
-                    ({formatFileSize(upload.file.size)})
+                    {upload.processedFile
+                      ? `(${formatFileSize(upload.file.size)} → ${formatFileSize(upload.processedFile.size)})`
+                      : `(${formatFileSize(upload.file.size)})`}
                   </div>
                 </div>
                 
                 <div className="flex items-center space-x-2">
-                  {upload.status === 'uploading' && (
+                  {upload.status === 'processing' && (
+                    <span className="text-xs text-gray-500">Optimizing...</span>
+                  )}
+                  {upload.status === 'uploading' && upload.attempt && (
+                    <span className="text-xs text-orange-600">Retrying (attempt {upload.attempt})...</span>
+                  )}
+                  {(upload.status === 'processing' || upload.status === 'uploading') && (
                     <LoadingSpinner size="sm" />
                   )}
                   {upload.status === 'success' && (
@@ -465,7 +359,7 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
                 <div className="mt-2">
                   <p className="text-xs text-red-600">{upload.error}</p>
                   <button
-                    onClick={() => retryUpload(upload.file)}
+                    onClick={() => retryUpload(upload)}
                     className="text-xs text-iguana-600 hover:text-iguana-800 mt-1"
                   >
                     Retry upload
@@ -477,13 +371,23 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
               {upload.status === 'success' && (
                 <p className="text-xs text-green-600 mt-2">
                   Upload completed successfully! 
-                  {isProduction ? ' (Stored in S3)' : ' (Stored locally)'}
+                  {uploadStrategy.kind === 'local' ? ' (Stored locally)' : uploadStrategy.kind === 'memory' ? ' (Stored in memory)' : ' (Stored in S3)'}
                 </p>
               )}
             </div>
           ))}
         </div>
       )}
+
+      <ImageEditor
+        isOpen={editQueue.length > 0}
+        source={editQueue[0] || null}
+        fileName={editQueue[0]?.name || ''}
+        saveLabel={editQueue.length > 1 ? `Upload & Edit Next (${editQueue.length - 1} left)` : 'Upload'}
+        cancelLabel="Skip File"
+        onClose={() => setEditQueue(prev => prev.slice(1))}
+        onSave={handleEditorSave}
+      />
     </div>
   );
 };
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowsRightLeftIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { useAdminApi } from '../../services/api';
+import { MediaImage, Product } from '../../types';
+
+interface ReassignImageDialogProps {
+  isOpen: boolean;
+  image: MediaImage | null;
+  isSubmitting?: boolean;
+  onClose: () => void;
+  onSubmit: (product: Product) => void;
+}
+
+const RESULT_LIMIT = 10;
+
+export const ReassignImageDialog: React.FC<ReassignImageDialogProps> = ({
+  isOpen,
+  image,
+  isSubmitting = false,
+  onClose,
+  onSubmit,
+}) => {
+  const api = useAdminApi();
+  const [search, setSearch] = useState('');
+  const [products, setProducts] = useState<Product[]>([]);
+  const [selected, setSelected] = useState<Product | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setSearch('');
+      setProducts([]);
+      setSelected(null);
+      setError('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen || !image) return null;
+
+  const handleSearch = async () => {
+    try {
+      setIsSearching(true);
+      setError('');
+      const result = await api.products.search({
+        page: 1,
+        pageSize: RESULT_LIMIT,
+        sort: 'name',
+        direction: 'asc',
+        search: search.trim() || undefined,
+      });
+      setProducts(result.items.map(item => item.product).filter(product => product.id !== image.product_id));
+    } catch (err: any) {
+      console.error('Error searching products:', err);
+      setError(err.message || 'Failed to search products');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) {
+      setError('Choose the product to move the image to');
+      return;
+    }
+    onSubmit(selected);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center p-6 border-b border-gray-200">
+          <img src={image.image_url} alt="" className="h-12 w-12 rounded-md object-cover border border-gray-200" />
+          <div className="ml-4">
+            <h2 className="text-lg font-medium text-gray-900">Reassign Image</h2>
+            <p className="text-sm text-gray-500">
+              {image.product_name ? `Currently on ${image.product_name}` : 'Not attached to any product'}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 p-3">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <div className="relative flex-1">
+              <MagnifyingGlassIcon className="h-5 w-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleSearch();
+                  }
+                }}
+                aria-label="Search products"
+                placeholder="Search products by name or SKU"
+                className="pl-10 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={handleSearch}
+              disabled={isSearching}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              {isSearching ? 'Searching...' : 'Search'}
+            </button>
+          </div>
+
+          {products.length > 0 && (
+            <ul className="border border-gray-200 rounded-md divide-y divide-gray-200 max-h-64 overflow-y-auto">
+              {products.map(product => (
+                <li key={product.id}>
+                  <label className="flex items-center px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="radio"
+                      name="reassign_product"
+                      checked={selected?.id === product.id}
+                      onChange={() => setSelected(product)}
+                      className="h-4 w-4 text-iguana-600 border-gray-300 focus:ring-iguana-500"
+                    />
+                    <span className="ml-3 text-gray-900">{product.name}</span>
+                    {product.sku && <span className="ml-2 text-gray-500">{product.sku}</span>}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200 bg-gray-50">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting || !selected}
+            className="px-4 py-2 bg-iguana-600 text-white rounded-md text-sm font-medium hover:bg-iguana-700 disabled:opacity-50 flex items-center"
+          >
+            <ArrowsRightLeftIcon className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Moving...' : 'Move Image'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ReassignImageDialog;
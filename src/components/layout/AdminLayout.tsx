@@ -7,6 +7,7 @@ import {
   UserGroupIcon,
   ShoppingBagIcon,
   PhotoIcon,
+  TagIcon,
   Bars3Icon,
   XMarkIcon,
   ArrowRightOnRectangleIcon,
@@ -19,6 +20,7 @@ interface AdminLayoutProps {
 const navigation = [
   { name: 'Dashboard', href: '/', icon: HomeIcon },
   { name: 'Products', href: '/products', icon: CubeIcon },
+  { name: 'Categories', href: '/categories', icon: TagIcon },
   { name: 'Images', href: '/images', icon: PhotoIcon },
   { name: 'Orders', href: '/orders', icon: ShoppingBagIcon },
   { name: 'Users', href: '/users', icon: UserGroupIcon },
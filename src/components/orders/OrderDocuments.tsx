@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { OrderSummary } from '../../types/order';
+import {
+  BUSINESS_DETAILS,
+  OrderDocument,
+  OrderDocumentKind,
+  buildOrderDocument,
+  formatAddressLines,
+  formatDocumentCurrency,
+  formatDocumentDate,
+} from '../../services/orderDocuments';
+import { downloadOrderDocumentsPdf } from '../../services/orderPdf';
+
+const PrintedDocument: React.FC<{ doc: OrderDocument }> = ({ doc }) => (
+  <section className="print-page text-sm text-black">
+    <header className="flex justify-between mb-8">
+      <div>
+        <h1 className="text-xl font-bold">{BUSINESS_DETAILS.name}</h1>
+        {BUSINESS_DETAILS.addressLines.map(line => <p key={line}>{line}</p>)}
+        {BUSINESS_DETAILS.email && <p>{BUSINESS_DETAILS.email}</p>}
+        {doc.kind === 'invoice' && BUSINESS_DETAILS.taxId && <p>Tax ID: {BUSINESS_DETAILS.taxId}</p>}
+      </div>
+      <div className="text-right">
+        <h2 className="text-2xl font-bold">{doc.title}</h2>
+        <p>Reference: {doc.reference}</p>
+        <p>Order: #{doc.order.id.slice(-8)}</p>
+        <p>Date: {formatDocumentDate(doc.issuedAt)}</p>
+      </div>
+    </header>
+
+    <div className="mb-8">
+      <h3 className="font-bold">{doc.kind === 'invoice' ? 'Bill to' : 'Ship to'}</h3>
+      {formatAddressLines(doc.order).map(line => <p key={line}>{line}</p>)}
+    </div>
+
+    <table className="w-full">
+      <thead>
+        <tr className="border-b border-black text-left">
+          <th className="py-1">Item</th>
+          <th className="py-1 text-right">Qty</th>
+          {doc.kind === 'invoice' && (
+            <>
+              <th className="py-1 text-right">Price</th>
+              <th className="py-1 text-right">Amount</th>
+            </>
+          )}
+        </tr>
+      </thead>
+      <tbody>
+        {doc.items.map(item => (
+          <tr key={item.id} className="border-b border-gray-300">
+            <td className="py-1">{item.product_name}</td>
+            <td className="py-1 text-right">{item.quantity}</td>
+            {doc.kind === 'invoice' && (
+              <>
+                <td className="py-1 text-right">{formatDocumentCurrency(item.price)}</td>
+                <td className="py-1 text-right">{formatDocumentCurrency(item.subtotal)}</td>
+              </>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    {doc.kind === 'invoice' && (
+      <div className="mt-4 ml-auto w-64 space-y-1">
+        {doc.totals.map((line, index) => (
+          <div
+            key={line.label}
+            className={`flex justify-between ${index === doc.totals.length - 1 ? 'font-bold border-t border-black pt-1' : ''}`}
+          >
+            <span>{line.label}</span>
+            <span>{formatDocumentCurrency(line.amount)}</span>
+          </div>
+        ))}
+        {doc.taxLines.map(line => (
+          <div key={line.label} className="flex justify-between text-xs">
+            <span>{line.label}</span>
+            <span>{formatDocumentCurrency(line.amount)}</span>
+          </div>
+        ))}
+      </div>
+    )}
+  </section>
+);
+
+// Printing renders the documents into a portal that is only visible in print
+// media (see index.css), opens the browser print dialog, and clears them again
+// once printing is done. Batches print as one job with a page per order.
+export const useOrderDocuments = () => {
+  const [printing, setPrinting] = useState<OrderDocument[]>([]);
+
+  useEffect(() => {
+    if (printing.length === 0) return;
+
+    const handleAfterPrint = () => setPrinting([]);
+    window.addEventListener('afterprint', handleAfterPrint);
+    window.print();
+    return () => window.removeEventListener('afterprint', handleAfterPrint);
+  }, [printing]);
+
+  const print = (orders: OrderSummary[], kind: OrderDocumentKind) => {
+    setPrinting(orders.map(order => buildOrderDocument(order, kind)));
+  };
+
+  const download = (orders: OrderSummary[], kind: OrderDocumentKind) => {
+    const documents = orders.map(order => buildOrderDocument(order, kind));
+    const name = orders.length === 1 ? `order-${orders[0].id.slice(-8)}` : `orders-${orders.length}`;
+    return downloadOrderDocumentsPdf(documents, `${kind}-${name}.pdf`);
+  };
+
+  const printView = printing.length > 0
+    ? createPortal(
+        <div className="print-root">
+          {printing.map(doc => <PrintedDocument key={`${doc.kind}-${doc.order.id}`} doc={doc} />)}
+        </div>,
+        document.body
+      )
+    : null;
+
+  return { print, download, printView };
+};
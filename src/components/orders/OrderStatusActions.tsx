@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { OrderStatus, OrderStatusUpdate } from '../../types/order';
+import {
+  FulfillmentStage,
+  OrderTransition,
+  TransitionInput,
+  buildStatusUpdate,
+  getAvailableTransitions,
+  needsDialog,
+} from '../../services/orderLifecycle';
+import { StatusTransitionDialog } from './StatusTransitionDialog';
+import { statusIcons } from './OrderStatusBadge';
+
+interface OrderStatusActionsProps {
+  status: OrderStatus;
+  // Needed to offer shipping or delivery for partially refunded orders
+  stage?: FulfillmentStage;
+  // Rejects when the change was not saved
+  onTransition: (update: OrderStatusUpdate) => Promise<void>;
+  variant?: 'icons' | 'buttons';
+  disabled?: boolean;
+  // Replaces the generic transition dialog for a target status with a custom flow
+  customActions?: Partial<Record<OrderStatus, () => void>>;
+}
+
+const toneClasses = {
+  icons: {
+    success: 'text-green-600 hover:text-green-900',
+    primary: 'text-blue-600 hover:text-blue-900',
+    danger: 'text-red-600 hover:text-red-900',
+  },
+  buttons: {
+    success: 'bg-green-600 hover:bg-green-700',
+    primary: 'bg-blue-600 hover:bg-blue-700',
+    danger: 'bg-red-600 hover:bg-red-700',
+  },
+};
+
+export const OrderStatusActions: React.FC<OrderStatusActionsProps> = ({
+  status,
+  stage,
+  onTransition,
+  variant = 'buttons',
+  disabled = false,
+  customActions = {},
+}) => {
+  const [activeTransition, setActiveTransition] = useState<OrderTransition | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  // On failure the dialog stays open with what was typed into it; transitions
+  // without a dialog rely on the page to report the error
+  const runTransition = async (transition: OrderTransition, input: TransitionInput = {}) => {
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await onTransition(buildStatusUpdate(status, transition.to, input, stage));
+      setActiveTransition(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to update order status');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openDialog = (transition: OrderTransition | null) => {
+    setError('');
+    setActiveTransition(transition);
+  };
+
+  const handleClick = (transition: OrderTransition) => {
+    const customAction = customActions[transition.to];
+    if (customAction) {
+      customAction();
+    } else if (needsDialog(transition)) {
+      openDialog(transition);
+    } else {
+      runTransition(transition);
+    }
+  };
+
+  // Without their dialogs, shipping and refunding would change the status
+  // without recording the parcel or the money
+  const transitions = getAvailableTransitions(status, stage).filter(
+    transition => !transition.flow || customActions[transition.to]
+  );
+
+  return (
+    <>
+      {transitions.map(transition => {
+        const Icon = statusIcons[transition.to];
+        return variant === 'icons' ? (
+          <button
+            key={transition.to}
+            onClick={() => handleClick(transition)}
+            disabled={disabled || isSubmitting}
+            className={`${toneClasses.icons[transition.tone]} disabled:opacity-50`}
+            title={transition.label}
+          >
+            <Icon className="h-5 w-5" />
+          </button>
+        ) : (
+          <button
+            key={transition.to}
+            onClick={() => handleClick(transition)}
+            disabled={disabled || isSubmitting}
+            className={`px-4 py-2 text-white rounded-md disabled:opacity-50 flex items-center ${toneClasses.buttons[transition.tone]}`}
+          >
+            <Icon className="h-4 w-4 mr-2" />
+            {transition.label}
+          </button>
+        );
+      })}
+
+      <StatusTransitionDialog
+        transition={activeTransition}
+        isSubmitting={isSubmitting}
+        error={error}
+        onClose={() => openDialog(null)}
+        onConfirm={(input) => activeTransition && runTransition(activeTransition, input)}
+      />
+    </>
+  );
+};
+
+export default OrderStatusActions;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { OrderStatus } from '../../types/order';
+import { ORDER_STATUS_LABELS } from '../../services/orderLifecycle';
+import {
+  CheckIcon,
+  XMarkIcon,
+  TruckIcon,
+  ClockIcon,
+  CheckBadgeIcon,
+  ReceiptRefundIcon,
+  ArrowUturnLeftIcon,
+} from '@heroicons/react/24/outline';
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus;
+  size?: 'sm' | 'md';
+}
+
+const statusColors: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-blue-100 text-blue-800',
+  shipped: 'bg-indigo-100 text-indigo-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+  refunded: 'bg-gray-100 text-gray-800',
+  partially_refunded: 'bg-orange-100 text-orange-800',
+  returned: 'bg-purple-100 text-purple-800',
+};
+
+export const statusIcons: Record<OrderStatus, React.ComponentType<React.SVGProps<SVGSVGElement>>> = {
+  pending: ClockIcon,
+  paid: CheckIcon,
+  shipped: TruckIcon,
+  delivered: CheckBadgeIcon,
+  cancelled: XMarkIcon,
+  refunded: ReceiptRefundIcon,
+  partially_refunded: ReceiptRefundIcon,
+  returned: ArrowUturnLeftIcon,
+};
+
+export const OrderStatusBadge: React.FC<OrderStatusBadgeProps> = ({ status, size = 'sm' }) => {
+  const Icon = statusIcons[status];
+  const sizeClasses = size === 'md' ? 'px-3 py-1 text-sm' : 'px-2.5 py-0.5 text-xs';
+  const iconClasses = size === 'md' ? 'h-5 w-5' : 'h-4 w-4';
+
+  return (
+    <span className={`inline-flex items-center rounded-full font-medium ${sizeClasses} ${statusColors[status]}`}>
+      <Icon className={iconClasses} />
+      <span className={size === 'md' ? 'ml-2' : 'ml-1'}>{ORDER_STATUS_LABELS[status]}</span>
+    </span>
+  );
+};
+
+export default OrderStatusBadge;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import {
+  ArrowPathIcon,
+  ChatBubbleLeftEllipsisIcon,
+  EnvelopeIcon,
+  LockClosedIcon,
+  ReceiptRefundIcon,
+  ShoppingCartIcon,
+  TruckIcon,
+} from '@heroicons/react/24/outline';
+import { NoteVisibility, OrderEvent, OrderEventType, OrderNoteInput } from '../../types/order';
+import { ORDER_STATUS_LABELS } from '../../services/orderLifecycle';
+
+interface OrderTimelineProps {
+  events: OrderEvent[];
+  // Rejects when the note was not saved, so the draft is kept for another try
+  onAddNote: (input: OrderNoteInput) => Promise<void>;
+  disabled?: boolean;
+}
+
+const eventIcons: Record<OrderEventType, typeof TruckIcon> = {
+  created: ShoppingCartIcon,
+  status_changed: ArrowPathIcon,
+  note: ChatBubbleLeftEllipsisIcon,
+  shipment: TruckIcon,
+  refund: ReceiptRefundIcon,
+  email_sent: EnvelopeIcon,
+};
+
+const eventColors: Record<OrderEventType, string> = {
+  created: 'bg-gray-100 text-gray-700',
+  status_changed: 'bg-blue-100 text-blue-700',
+  note: 'bg-iguana-100 text-iguana-700',
+  shipment: 'bg-indigo-100 text-indigo-700',
+  refund: 'bg-red-100 text-red-700',
+  email_sent: 'bg-purple-100 text-purple-700',
+};
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const describeEvent = (event: OrderEvent): string => {
+  if (event.type === 'note') return 'Note';
+  if (event.type === 'status_changed' && event.to_status) {
+    const from = event.from_status ? `${ORDER_STATUS_LABELS[event.from_status]} → ` : '';
+    return `Status changed: ${from}${ORDER_STATUS_LABELS[event.to_status]}`;
+  }
+  return event.message;
+};
+
+export const OrderTimeline: React.FC<OrderTimelineProps> = ({ events, onAddNote, disabled = false }) => {
+  const [message, setMessage] = useState('');
+  const [visibility, setVisibility] = useState<NoteVisibility>('internal');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const sortedEvents = [...events].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message.trim()) return;
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await onAddNote({ message: message.trim(), visibility });
+      setMessage('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to add note');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <textarea
+          rows={3}
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder={visibility === 'internal' ? 'Add an internal note for staff...' : 'Add a note the customer can see...'}
+          className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+        />
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <div className="flex items-center justify-between">
+          <select
+            value={visibility}
+            onChange={(e) => setVisibility(e.target.value as NoteVisibility)}
+            className="border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 text-sm"
+          >
+            <option value="internal">Internal only</option>
+            <option value="customer">Visible to customer</option>
+          </select>
+          <button
+            type="submit"
+            disabled={disabled || isSubmitting || !message.trim()}
+            className="px-4 py-2 bg-iguana-600 text-white rounded-md text-sm font-medium hover:bg-iguana-700 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Adding...' : 'Add Note'}
+          </button>
+        </div>
+      </form>
+
+      {sortedEvents.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity recorded yet.</p>
+      ) : (
+        <ol className="space-y-6">
+          {sortedEvents.map((event, index) => {
+            const Icon = eventIcons[event.type];
+            return (
+              <li key={event.id} className="relative pl-8">
+                {/* Connector line */}
+                {index < sortedEvents.length - 1 && (
+                  <span className="absolute left-3 top-6 -bottom-6 w-px bg-gray-200" aria-hidden="true" />
+                )}
+                <span className={`absolute left-0 top-0 flex h-6 w-6 items-center justify-center rounded-full ${eventColors[event.type]}`}>
+                  <Icon className="h-4 w-4" />
+                </span>
+
+                <div className="flex items-start justify-between">
+                  <p className="text-sm font-medium text-gray-900">{describeEvent(event)}</p>
+                  {event.type === 'note' && (
+                    event.visibility === 'customer' ? (
+                      <span className="ml-2 flex-shrink-0 text-xs font-medium text-blue-700 bg-blue-100 rounded-full px-2 py-0.5">
+                        Customer
+                      </span>
+                    ) : (
+                      <span className="ml-2 flex-shrink-0 inline-flex items-center text-xs font-medium text-gray-700 bg-gray-100 rounded-full px-2 py-0.5">
+                        <LockClosedIcon className="h-3 w-3 mr-1" />
+                        Internal
+                      </span>
+                    )
+                  )}
+                </div>
+                {event.type === 'status_changed' && event.message && (
+                  <p className="mt-1 text-sm text-gray-600">{event.message}</p>
+                )}
+                {event.type === 'note' && (
+                  <p className="mt-1 text-sm text-gray-600 whitespace-pre-line">{event.message}</p>
+                )}
+                <p className="mt-1 text-xs text-gray-500">
+                  {event.actor ? event.actor.name : 'System'} · {formatDateTime(event.created_at)}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default OrderTimeline;
@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from 'react';
+import { ReceiptRefundIcon } from '@heroicons/react/24/outline';
+import { OrderSummary, Refund, RefundInput } from '../../types/order';
+import {
+  calculateItemsAmount,
+  getRefundableAmount,
+  getRefundableItems,
+} from '../../services/refunds';
+
+interface RefundDialogProps {
+  isOpen: boolean;
+  order: OrderSummary;
+  refunds: Refund[];
+  isSubmitting?: boolean;
+  onClose: () => void;
+  onSubmit: (input: RefundInput) => void;
+}
+
+type RefundMode = 'full' | 'items';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+export const RefundDialog: React.FC<RefundDialogProps> = ({
+  isOpen,
+  order,
+  refunds,
+  isSubmitting = false,
+  onClose,
+  onSubmit,
+}) => {
+  const refundable = getRefundableItems(order, refunds);
+  const refundableAmount = getRefundableAmount(order, refunds);
+  const [mode, setMode] = useState<RefundMode>('full');
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [restock, setRestock] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode('full');
+      setQuantities({});
+      setAmount(getRefundableAmount(order, refunds).toFixed(2));
+      setReason('');
+      setRestock(true);
+      setError('');
+    }
+  }, [isOpen, order, refunds]);
+
+  if (!isOpen) return null;
+
+  const selectedItems = mode === 'full'
+    ? refundable
+    : refundable
+        .map(item => ({ order_item_id: item.order_item_id, quantity: quantities[item.order_item_id] || 0 }))
+        .filter(item => item.quantity > 0);
+
+  const changeMode = (next: RefundMode) => {
+    setMode(next);
+    setAmount(next === 'full' ? refundableAmount.toFixed(2) : '0.00');
+    if (next === 'items') setQuantities({});
+  };
+
+  // Suggest the value of the selected lines; staff can still adjust the amount
+  const changeQuantity = (orderItemId: string, quantity: number) => {
+    const next = { ...quantities, [orderItemId]: quantity };
+    setQuantities(next);
+    const items = Object.entries(next).map(([order_item_id, qty]) => ({ order_item_id, quantity: qty }));
+    setAmount(Math.min(calculateItemsAmount(order, items), refundableAmount).toFixed(2));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedAmount = Math.round(parseFloat(amount) * 100) / 100;
+
+    if (!reason.trim()) {
+      setError('Reason is required');
+      return;
+    }
+    if (mode === 'items' && selectedItems.length === 0) {
+      setError('Select at least one item to refund');
+      return;
+    }
+    if (refundable.some(item => (quantities[item.order_item_id] || 0) > item.quantity)) {
+      setError('Cannot refund more items than remain on the order');
+      return;
+    }
+    if (!(parsedAmount > 0)) {
+      setError('Refund amount must be greater than zero');
+      return;
+    }
+    if (parsedAmount > refundableAmount) {
+      setError(`Refund amount cannot exceed ${formatCurrency(refundableAmount)}`);
+      return;
+    }
+
+    onSubmit({
+      amount: parsedAmount,
+      reason: reason.trim(),
+      restock: restock && selectedItems.length > 0,
+      items: selectedItems,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center p-6 border-b border-gray-200">
+          <div className="flex-shrink-0 flex items-center justify-center h-10 w-10 rounded-full bg-red-100">
+            <ReceiptRefundIcon className="h-6 w-6 text-red-600" />
+          </div>
+          <div className="ml-4">
+            <h2 className="text-lg font-medium text-gray-900">Refund Order</h2>
+            <p className="text-sm text-gray-500">
+              Up to {formatCurrency(refundableAmount)} can be refunded on order #{order.id.slice(-8)}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 p-3">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-4">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="radio"
+                name="refund_mode"
+                checked={mode === 'full'}
+                onChange={() => changeMode('full')}
+                className="mr-2 text-iguana-600 focus:ring-iguana-500"
+              />
+              Whole order
+            </label>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="radio"
+                name="refund_mode"
+                checked={mode === 'items'}
+                onChange={() => changeMode('items')}
+                disabled={refundable.length === 0}
+                className="mr-2 text-iguana-600 focus:ring-iguana-500"
+              />
+              Selected items
+            </label>
+          </div>
+
+          {mode === 'items' && (
+            <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+              {refundable.map(({ order_item_id, quantity: remaining }) => {
+                const item = order.items.find(i => i.id === order_item_id)!;
+                return (
+                  <div key={order_item_id} className="flex items-center justify-between px-3 py-2">
+                    <div className="text-sm text-gray-900 truncate">
+                      {item.product_name}
+                      <span className="ml-2 text-xs text-gray-500">
+                        {remaining} refundable · {formatCurrency(item.price)} each
+                      </span>
+                    </div>
+                    <input
+                      type="number"
+                      min="0"
+                      max={remaining}
+                      value={quantities[order_item_id] ?? 0}
+                      onChange={(e) => changeQuantity(order_item_id, Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-20 border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="refund_amount" className="block text-sm font-medium text-gray-700">
+              Amount *
+            </label>
+            <input
+              id="refund_amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              max={refundableAmount}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="refund_reason" className="block text-sm font-medium text-gray-700">
+              Reason *
+            </label>
+            <textarea
+              id="refund_reason"
+              rows={3}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+              placeholder="Why is this order being refunded?"
+            />
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={restock}
+              onChange={(e) => setRestock(e.target.checked)}
+              disabled={selectedItems.length === 0}
+              className="mr-2 rounded border-gray-300 text-iguana-600 focus:ring-iguana-500"
+            />
+            Return refunded items to stock
+          </label>
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200 bg-gray-50">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-red-600 text-white rounded-md text-sm font-medium hover:bg-red-700 disabled:opacity-50 flex items-center"
+          >
+            <ReceiptRefundIcon className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Saving...' : 'Issue Refund'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default RefundDialog;
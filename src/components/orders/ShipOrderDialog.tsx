@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from 'react';
+import { TruckIcon } from '@heroicons/react/24/outline';
+import { OrderSummary, Shipment, ShipmentInput } from '../../types/order';
+import { CARRIERS, getUnshippedItems } from '../../services/shipments';
+
+interface ShipOrderDialogProps {
+  isOpen: boolean;
+  order: OrderSummary;
+  shipments: Shipment[];
+  isSubmitting?: boolean;
+  onClose: () => void;
+  onSubmit: (input: ShipmentInput) => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export const ShipOrderDialog: React.FC<ShipOrderDialogProps> = ({
+  isOpen,
+  order,
+  shipments,
+  isSubmitting = false,
+  onClose,
+  onSubmit,
+}) => {
+  const unshipped = getUnshippedItems(order, shipments);
+  const [carrier, setCarrier] = useState(CARRIERS[0]);
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [shippedAt, setShippedAt] = useState(today());
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [error, setError] = useState('');
+
+  // Default to shipping everything that is still outstanding
+  useEffect(() => {
+    if (isOpen) {
+      setTrackingNumber('');
+      setShippedAt(today());
+      setError('');
+      setQuantities(
+        Object.fromEntries(getUnshippedItems(order, shipments).map(item => [item.order_item_id, item.quantity]))
+      );
+    }
+  }, [isOpen, order, shipments]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const items = unshipped
+      .map(item => ({ order_item_id: item.order_item_id, quantity: quantities[item.order_item_id] || 0 }))
+      .filter(item => item.quantity > 0);
+
+    if (!trackingNumber.trim()) {
+      setError('Tracking number is required');
+      return;
+    }
+    if (items.length === 0) {
+      setError('Select at least one item to ship');
+      return;
+    }
+    if (unshipped.some(item => (quantities[item.order_item_id] || 0) > item.quantity)) {
+      setError('Cannot ship more items than remain on the order');
+      return;
+    }
+
+    onSubmit({
+      carrier,
+      tracking_number: trackingNumber.trim(),
+      shipped_at: new Date(shippedAt).toISOString(),
+      items,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center p-6 border-b border-gray-200">
+          <div className="flex-shrink-0 flex items-center justify-center h-10 w-10 rounded-full bg-blue-100">
+            <TruckIcon className="h-6 w-6 text-blue-600" />
+          </div>
+          <div className="ml-4">
+            <h2 className="text-lg font-medium text-gray-900">Ship Order</h2>
+            <p className="text-sm text-gray-500">
+              Record a shipment for order #{order.id.slice(-8)}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 p-3">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="carrier" className="block text-sm font-medium text-gray-700">
+                Carrier *
+              </label>
+              <select
+                id="carrier"
+                value={carrier}
+                onChange={(e) => setCarrier(e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+              >
+                {CARRIERS.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="shipped_at" className="block text-sm font-medium text-gray-700">
+                Ship Date *
+              </label>
+              <input
+                id="shipped_at"
+                type="date"
+                value={shippedAt}
+                max={today()}
+                onChange={(e) => setShippedAt(e.target.value)}
+                required
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="tracking_number" className="block text-sm font-medium text-gray-700">
+              Tracking Number *
+            </label>
+            <input
+              id="tracking_number"
+              type="text"
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+              placeholder="Tracking number from the carrier"
+            />
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Items in this shipment</h3>
+            <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+              {unshipped.map(({ order_item_id, quantity: remaining }) => {
+                const item = order.items.find(i => i.id === order_item_id)!;
+                return (
+                  <div key={order_item_id} className="flex items-center justify-between px-3 py-2">
+                    <div className="text-sm text-gray-900 truncate">
+                      {item.product_name}
+                      <span className="ml-2 text-xs text-gray-500">{remaining} remaining</span>
+                    </div>
+                    <input
+                      type="number"
+                      min="0"
+                      max={remaining}
+                      value={quantities[order_item_id] ?? 0}
+                      onChange={(e) => setQuantities({ ...quantities, [order_item_id]: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className="w-20 border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200 bg-gray-50">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50 flex items-center"
+          >
+            <TruckIcon className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Saving...' : 'Ship Items'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ShipOrderDialog;
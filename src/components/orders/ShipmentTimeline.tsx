@@ -0,0 +1,95 @@
+import React from 'react';
+import { CheckBadgeIcon, TruckIcon } from '@heroicons/react/24/outline';
+import { OrderSummary, Shipment } from '../../types/order';
+import { getTrackingUrl } from '../../services/shipments';
+
+interface ShipmentTimelineProps {
+  order: OrderSummary;
+  shipments: Shipment[];
+  onMarkDelivered: (shipment: Shipment) => void;
+  disabled?: boolean;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+export const ShipmentTimeline: React.FC<ShipmentTimelineProps> = ({
+  order,
+  shipments,
+  onMarkDelivered,
+  disabled = false,
+}) => {
+  if (shipments.length === 0) {
+    return <p className="text-sm text-gray-500">Nothing has been shipped yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-6">
+      {shipments.map((shipment, index) => {
+        const trackingUrl = getTrackingUrl(shipment.carrier, shipment.tracking_number);
+        return (
+          <li key={shipment.id} className="relative pl-8">
+            {/* Connector line */}
+            {index < shipments.length - 1 && (
+              <span className="absolute left-3 top-6 -bottom-6 w-px bg-gray-200" aria-hidden="true" />
+            )}
+            <span className={`absolute left-0 top-0 flex h-6 w-6 items-center justify-center rounded-full ${
+              shipment.status === 'delivered' ? 'bg-green-100 text-green-700' : 'bg-indigo-100 text-indigo-700'
+            }`}>
+              {shipment.status === 'delivered'
+                ? <CheckBadgeIcon className="h-4 w-4" />
+                : <TruckIcon className="h-4 w-4" />}
+            </span>
+
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  Shipment {index + 1} · {shipment.carrier}
+                </p>
+                <p className="text-sm text-gray-500">
+                  Tracking:{' '}
+                  {trackingUrl ? (
+                    <a href={trackingUrl} target="_blank" rel="noopener noreferrer" className="font-mono text-iguana-600 hover:text-iguana-800">
+                      {shipment.tracking_number}
+                    </a>
+                  ) : (
+                    <span className="font-mono">{shipment.tracking_number}</span>
+                  )}
+                </p>
+              </div>
+              {shipment.status !== 'delivered' && (
+                <button
+                  type="button"
+                  onClick={() => onMarkDelivered(shipment)}
+                  disabled={disabled}
+                  className="text-xs font-medium text-green-700 hover:text-green-900 disabled:opacity-50"
+                >
+                  Mark delivered
+                </button>
+              )}
+            </div>
+
+            <ul className="mt-2 text-xs text-gray-600 space-y-0.5">
+              {shipment.items.map(item => (
+                <li key={item.order_item_id}>
+                  {item.quantity}x {order.items.find(i => i.id === item.order_item_id)?.product_name || 'Unknown item'}
+                </li>
+              ))}
+            </ul>
+
+            <div className="mt-2 text-xs text-gray-500 space-y-0.5">
+              <p>Shipped {formatDate(shipment.shipped_at)}</p>
+              {shipment.delivered_at && <p>Delivered {formatDate(shipment.delivered_at)}</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default ShipmentTimeline;
@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { ExclamationTriangleIcon, TruckIcon } from '@heroicons/react/24/outline';
+import {
+  OrderTransition,
+  TransitionField,
+  TransitionInput,
+  TRANSITION_FIELD_LABELS,
+  ORDER_STATUS_LABELS,
+  validateTransitionInput,
+} from '../../services/orderLifecycle';
+
+interface StatusTransitionDialogProps {
+  transition: OrderTransition | null;
+  isSubmitting?: boolean;
+  // Why the last attempt failed; the dialog stays open so it can be retried
+  error?: string;
+  onClose: () => void;
+  onConfirm: (input: TransitionInput) => void;
+}
+
+const fieldPlaceholders: Record<TransitionField, string> = {
+  carrier: 'e.g. UPS, DHL, Royal Mail',
+  tracking_number: 'Tracking number from the carrier',
+  reason: 'Why is this change being made?',
+};
+
+export const StatusTransitionDialog: React.FC<StatusTransitionDialogProps> = ({
+  transition,
+  isSubmitting = false,
+  error,
+  onClose,
+  onConfirm,
+}) => {
+  const [input, setInput] = useState<TransitionInput>({});
+  const [errors, setErrors] = useState<Partial<Record<TransitionField, string>>>({});
+
+  useEffect(() => {
+    setInput({});
+    setErrors({});
+  }, [transition]);
+
+  if (!transition) return null;
+
+  const isDanger = transition.tone === 'danger';
+  const Icon = isDanger ? ExclamationTriangleIcon : TruckIcon;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationErrors = validateTransitionInput(transition, input);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length === 0) {
+      onConfirm(input);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          onClick={onClose}
+        />
+
+        {/* Center the panel */}
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">
+          &#8203;
+        </span>
+
+        {/* Dialog panel */}
+        <form
+          onSubmit={handleSubmit}
+          className="inline-block align-bottom bg-white rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full sm:p-6"
+        >
+          <div className="sm:flex sm:items-start">
+            <div className={`mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full sm:mx-0 sm:h-10 sm:w-10 ${isDanger ? 'bg-red-100' : 'bg-blue-100'}`}>
+              <Icon className={`h-6 w-6 ${isDanger ? 'text-red-600' : 'text-blue-600'}`} />
+            </div>
+            <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left flex-1">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">
+                {transition.confirmation?.title || transition.label}
+              </h3>
+              <div className="mt-2">
+                <p className="text-sm text-gray-500">
+                  {transition.confirmation?.message ||
+                    `Change this order from ${ORDER_STATUS_LABELS[transition.from]} to ${ORDER_STATUS_LABELS[transition.to]}.`}
+                </p>
+              </div>
+
+              {transition.requires.map(field => (
+                <div key={field} className="mt-4">
+                  <label htmlFor={`transition-${field}`} className="block text-sm font-medium text-gray-700">
+                    {TRANSITION_FIELD_LABELS[field]} *
+                  </label>
+                  {field === 'reason' ? (
+                    <textarea
+                      id={`transition-${field}`}
+                      rows={3}
+                      value={input[field] || ''}
+                      onChange={(e) => setInput({ ...input, [field]: e.target.value })}
+                      placeholder={fieldPlaceholders[field]}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+                    />
+                  ) : (
+                    <input
+                      id={`transition-${field}`}
+                      type="text"
+                      value={input[field] || ''}
+                      onChange={(e) => setInput({ ...input, [field]: e.target.value })}
+                      placeholder={fieldPlaceholders[field]}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+                    />
+                  )}
+                  {errors[field] && (
+                    <p className="mt-1 text-xs text-red-600">{errors[field]}</p>
+                  )}
+                </div>
+              ))}
+
+              {error && (
+                <div className="mt-4 rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+              )}
+            </div>
+          </div>
+          <div className="mt-5 sm:mt-4 sm:flex sm:flex-row-reverse">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={`w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 text-base font-medium text-white focus:outline-none focus:ring-2 focus:ring-offset-2 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50 ${
+                isDanger
+                  ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500'
+                  : 'bg-iguana-600 hover:bg-iguana-700 focus:ring-iguana-500'
+              }`}
+            >
+              {transition.label}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-iguana-500 sm:mt-0 sm:w-auto sm:text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StatusTransitionDialog;
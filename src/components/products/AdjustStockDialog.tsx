@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { ArchiveBoxIcon } from '@heroicons/react/24/outline';
+import { InventoryEntryType, Product, StockAdjustmentInput } from '../../types';
+import {
+  ADJUSTMENT_TYPES,
+  INVENTORY_ENTRY_LABELS,
+  getAdjustmentDelta,
+  validateAdjustment,
+} from '../../services/inventory';
+import { getVariantLabel, hasVariants } from '../../services/productVariants';
+
+interface AdjustStockDialogProps {
+  isOpen: boolean;
+  product: Product;
+  isSubmitting?: boolean;
+  onClose: () => void;
+  onSubmit: (input: StockAdjustmentInput) => void;
+}
+
+const reasonPlaceholders: Partial<Record<InventoryEntryType, string>> = {
+  received: 'e.g. Delivery from supplier, PO 1042',
+  returned: 'e.g. Customer return, order #1a2b3c4d',
+  damaged: 'e.g. Broken clasp found during packing',
+  correction: 'e.g. Quarterly stock count',
+};
+
+export const AdjustStockDialog: React.FC<AdjustStockDialogProps> = ({
+  isOpen,
+  product,
+  isSubmitting = false,
+  onClose,
+  onSubmit,
+}) => {
+  const variants = product.variants || [];
+  const [type, setType] = useState<InventoryEntryType>('received');
+  const [variantSku, setVariantSku] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setType('received');
+      setVariantSku(product.variants?.[0]?.sku || '');
+      setQuantity('');
+      setReason('');
+      setErrors([]);
+    }
+  }, [isOpen, product]);
+
+  if (!isOpen) return null;
+
+  const currentStock = hasVariants(product)
+    ? variants.find(variant => variant.sku === variantSku)?.stock_quantity ?? 0
+    : product.stock_quantity;
+  const parsedQuantity = Number(quantity);
+  const preview = quantity.trim() !== '' && Number.isInteger(parsedQuantity) && parsedQuantity >= 0
+    ? currentStock + getAdjustmentDelta(type, parsedQuantity, currentStock)
+    : undefined;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationErrors = validateAdjustment(type, quantity, reason, currentStock);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    onSubmit({
+      type,
+      delta: getAdjustmentDelta(type, parsedQuantity, currentStock),
+      reason: reason.trim(),
+      ...(hasVariants(product) && { variant_sku: variantSku }),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center p-6 border-b border-gray-200">
+          <div className="flex-shrink-0 flex items-center justify-center h-10 w-10 rounded-full bg-iguana-100">
+            <ArchiveBoxIcon className="h-6 w-6 text-iguana-600" />
+          </div>
+          <div className="ml-4">
+            <h2 className="text-lg font-medium text-gray-900">Adjust Stock</h2>
+            <p className="text-sm text-gray-500">
+              {product.name} · {currentStock} in stock
+            </p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {errors.length > 0 && (
+            <div className="rounded-md bg-red-50 p-3">
+              {errors.map(error => (
+                <p key={error} className="text-sm text-red-700">{error}</p>
+              ))}
+            </div>
+          )}
+
+          {hasVariants(product) && (
+            <div>
+              <label htmlFor="adjust_variant" className="block text-sm font-medium text-gray-700">
+                Variant *
+              </label>
+              <select
+                id="adjust_variant"
+                value={variantSku}
+                onChange={(e) => setVariantSku(e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+              >
+                {variants.map(variant => (
+                  <option key={variant.sku} value={variant.sku}>
+                    {getVariantLabel(variant)} ({variant.sku}) · {variant.stock_quantity} in stock
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="adjust_type" className="block text-sm font-medium text-gray-700">
+              Type *
+            </label>
+            <select
+              id="adjust_type"
+              value={type}
+              onChange={(e) => setType(e.target.value as InventoryEntryType)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+            >
+              {ADJUSTMENT_TYPES.map(option => (
+                <option key={option} value={option}>
+                  {INVENTORY_ENTRY_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="adjust_quantity" className="block text-sm font-medium text-gray-700">
+              {type === 'correction' ? 'Counted stock *' : 'Quantity *'}
+            </label>
+            <input
+              id="adjust_quantity"
+              type="number"
+              min="0"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+            />
+            {preview !== undefined && (
+              <p className={`mt-1 text-sm ${preview < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                Stock after adjustment: {preview}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="adjust_reason" className="block text-sm font-medium text-gray-700">
+              Reason *
+            </label>
+            <textarea
+              id="adjust_reason"
+              rows={3}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+              placeholder={reasonPlaceholders[type]}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200 bg-gray-50">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-iguana-600 text-white rounded-md text-sm font-medium hover:bg-iguana-700 disabled:opacity-50 flex items-center"
+          >
+            <ArchiveBoxIcon className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Saving...' : 'Record Adjustment'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AdjustStockDialog;
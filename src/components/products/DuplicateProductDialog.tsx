@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { DocumentDuplicateIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
+import { Product } from '../../types';
+import { useAdminApi } from '../../services/api';
+import { DuplicateResult, duplicateProduct } from '../../services/productDuplication';
+
+interface DuplicateProductDialogProps {
+  isOpen: boolean;
+  product: Product;
+  onClose: () => void;
+}
+
+// Creates the copy as a draft and opens it for editing. When some images
+// could not be copied the dialog lists them instead of navigating away.
+export const DuplicateProductDialog: React.FC<DuplicateProductDialogProps> = ({ isOpen, product, onClose }) => {
+  const api = useAdminApi();
+  const navigate = useNavigate();
+  const [name, setName] = useState('');
+  const [includeImages, setIncludeImages] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<DuplicateResult | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(`${product.name} (Copy)`);
+      setIncludeImages(true);
+      setError('');
+      setResult(null);
+    }
+  }, [isOpen, product]);
+
+  if (!isOpen) return null;
+
+  const openDuplicate = (duplicate: Product) => {
+    onClose();
+    navigate(`/products/${duplicate.id}/edit`);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError('');
+      const duplicated = await duplicateProduct(api, product, { name: name.trim(), includeImages });
+      if (duplicated.failedImages.length > 0) {
+        setResult(duplicated);
+      } else {
+        openDuplicate(duplicated.product);
+      }
+    } catch (err: any) {
+      console.error('Error duplicating product:', err);
+      setError(err.message || 'Failed to duplicate product');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center p-6 border-b border-gray-200">
+          <div className="flex-shrink-0 flex items-center justify-center h-10 w-10 rounded-full bg-iguana-100">
+            <DocumentDuplicateIcon className="h-6 w-6 text-iguana-600" />
+          </div>
+          <div className="ml-4">
+            <h2 className="text-lg font-medium text-gray-900">Duplicate Product</h2>
+            <p className="text-sm text-gray-500">The copy is saved as a draft without stock.</p>
+          </div>
+        </div>
+
+        {result ? (
+          <div className="p-6 space-y-3">
+            <p className="text-sm text-gray-700">
+              {result.product.name} was created, but {result.failedImages.length} image
+              {result.failedImages.length === 1 ? '' : 's'} could not be copied. Upload them again from the edit page.
+            </p>
+            <ul className="space-y-1">
+              {result.failedImages.map(({ item, error: imageError }) => (
+                <li key={item.id} className="flex items-start text-sm text-red-700">
+                  <ExclamationCircleIcon className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                  <span className="break-all">
+                    {item.image_url}: {imageError}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <div className="p-6 space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3">
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="duplicate_name" className="block text-sm font-medium text-gray-700">
+                Name *
+              </label>
+              <input
+                id="duplicate_name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+              />
+            </div>
+
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeImages}
+                onChange={(e) => setIncludeImages(e.target.checked)}
+                className="h-4 w-4 text-iguana-600 border-gray-300 rounded focus:ring-iguana-500"
+              />
+              <span className="ml-2">Copy images</span>
+            </label>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200 bg-gray-50">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {result ? 'Close' : 'Cancel'}
+          </button>
+          {result ? (
+            <button
+              type="button"
+              onClick={() => openDuplicate(result.product)}
+              className="px-4 py-2 bg-iguana-600 text-white rounded-md text-sm font-medium hover:bg-iguana-700"
+            >
+              Open Duplicate
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 bg-iguana-600 text-white rounded-md text-sm font-medium hover:bg-iguana-700 disabled:opacity-50 flex items-center"
+            >
+              <DocumentDuplicateIcon className="h-4 w-4 mr-2" />
+              {isSubmitting ? 'Duplicating...' : 'Duplicate'}
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default DuplicateProductDialog;
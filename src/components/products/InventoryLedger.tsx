@@ -0,0 +1,98 @@
+import React from 'react';
+import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { InventoryEntry, InventoryEntryType, Product } from '../../types';
+import { INVENTORY_ENTRY_LABELS, isBalanced, reconcileLedger } from '../../services/inventory';
+
+interface InventoryLedgerProps {
+  entries: InventoryEntry[];
+  product: Product;
+}
+
+const typeColors: Record<InventoryEntryType, string> = {
+  received: 'bg-green-100 text-green-800',
+  sold: 'bg-blue-100 text-blue-800',
+  returned: 'bg-purple-100 text-purple-800',
+  damaged: 'bg-red-100 text-red-800',
+  correction: 'bg-gray-100 text-gray-800',
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const InventoryLedger: React.FC<InventoryLedgerProps> = ({ entries, product }) => {
+  const balances = reconcileLedger(entries, product);
+  const mismatched = balances.filter(balance => balance.ledgerTotal !== balance.currentStock);
+
+  return (
+    <div>
+      {isBalanced(balances) ? (
+        <div className="flex items-center px-6 py-3 text-sm text-green-700 bg-green-50">
+          <CheckCircleIcon className="h-4 w-4 mr-2" />
+          Ledger reconciles to the current stock of {balances[0].currentStock}
+        </div>
+      ) : (
+        <div className="px-6 py-3 text-sm text-yellow-800 bg-yellow-50">
+          <div className="flex items-center font-medium">
+            <ExclamationTriangleIcon className="h-4 w-4 mr-2" />
+            Ledger does not match the current stock
+          </div>
+          <ul className="mt-1 ml-6 list-disc">
+            {mismatched.map(balance => (
+              <li key={balance.variantSku || 'total'}>
+                {balance.label}: ledger {balance.ledgerTotal}, stock {balance.currentStock}
+              </li>
+            ))}
+          </ul>
+          <p className="mt-1 ml-6">Record a manual correction after counting the stock.</p>
+        </div>
+      )}
+
+      {entries.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Date', 'Type', 'Change', 'Stock', 'Reason', 'By'].map(heading => (
+                  <th key={heading} scope="col" className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {entries.map(entry => (
+                <tr key={entry.id}>
+                  <td className="px-6 py-2 whitespace-nowrap text-gray-500">{formatDate(entry.created_at)}</td>
+                  <td className="px-6 py-2 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${typeColors[entry.type]}`}>
+                      {INVENTORY_ENTRY_LABELS[entry.type]}
+                    </span>
+                  </td>
+                  <td className={`px-6 py-2 whitespace-nowrap font-medium ${entry.delta < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {entry.delta > 0 ? `+${entry.delta}` : entry.delta}
+                  </td>
+                  <td className="px-6 py-2 whitespace-nowrap text-gray-900">
+                    {entry.stock_after}
+                    {entry.variant_sku && <span className="ml-1 text-xs text-gray-500">({entry.variant_sku})</span>}
+                  </td>
+                  <td className="px-6 py-2 text-gray-700">{entry.reason}</td>
+                  <td className="px-6 py-2 whitespace-nowrap text-gray-500">{entry.admin?.name || 'System'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="px-6 py-4 text-sm text-gray-500">No stock changes recorded.</p>
+      )}
+    </div>
+  );
+};
+
+export default InventoryLedger;
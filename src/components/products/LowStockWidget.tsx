@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowDownTrayIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useAdminApi } from '../../services/api';
+import { buildExportTable, downloadExport, fetchAllPages } from '../../services/export';
+import { REORDER_EXPORT_COLUMNS } from '../../services/exportColumns';
+import { getReorderList } from '../../services/stockLevels';
+import { Product } from '../../types';
+
+const SHOWN_ITEMS = 5;
+
+export const LowStockWidget: React.FC = () => {
+  const api = useAdminApi();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchLowStock = async () => {
+      try {
+        const items = await fetchAllPages((page, pageSize) =>
+          api.products.search({ page, pageSize, sort: 'stock_quantity', direction: 'asc', stockAlert: 'low' })
+        );
+        setProducts(items.map(item => item.product));
+      } catch (err: any) {
+        console.error('Error fetching low-stock products:', err);
+        setError(err.message || 'Failed to fetch low-stock products');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchLowStock();
+  }, [api]);
+
+  const reorderList = getReorderList(products);
+  const outOfStock = reorderList.filter(item => item.stock <= 0).length;
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center">
+          <ExclamationTriangleIcon className="h-5 w-5 text-yellow-500 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Stock Alerts</h3>
+        </div>
+        {reorderList.length > 0 && (
+          <button
+            onClick={() => downloadExport(buildExportTable(reorderList, REORDER_EXPORT_COLUMNS), 'reorder-list', 'csv')}
+            className="flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+            Reorder List
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-24">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-iguana-600"></div>
+        </div>
+      ) : error ? (
+        <p className="px-6 py-4 text-sm text-red-600">{error}</p>
+      ) : reorderList.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500">All products are above their low-stock threshold.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 divide-x divide-gray-200 border-b border-gray-200">
+            <Link to="/products?stock_alert=out" className="px-6 py-3 hover:bg-gray-50">
+              <p className="text-2xl font-semibold text-red-600">{outOfStock}</p>
+              <p className="text-sm text-gray-500">Out of stock</p>
+            </Link>
+            <Link to="/products?stock_alert=low" className="px-6 py-3 hover:bg-gray-50">
+              <p className="text-2xl font-semibold text-yellow-600">{reorderList.length - outOfStock}</p>
+              <p className="text-sm text-gray-500">Low stock</p>
+            </Link>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {reorderList.slice(0, SHOWN_ITEMS).map(({ product, stock, threshold }) => (
+              <li key={product.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                <Link to={`/products/${product.id}`} className="text-gray-900 hover:text-iguana-600 truncate">
+                  {product.name}
+                </Link>
+                <span className={stock <= 0 ? 'text-red-600 font-medium' : 'text-yellow-700'}>
+                  {stock} / {threshold}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {reorderList.length > SHOWN_ITEMS && (
+            <div className="px-6 py-3 bg-gray-50 text-sm">
+              <Link to="/products?stock_alert=low" className="font-medium text-iguana-600 hover:text-iguana-500">
+                View all {reorderList.length}
+              </Link>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LowStockWidget;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Category, Product } from '../../types';
+import { ProductFieldErrors, emptyProductFormValues } from '../../services/productValidation';
+import { ProductForm, ProductFormState } from './ProductForm';
+
+const rings: Category = {
+  id: 'c1',
+  slug: 'rings',
+  name: 'Rings',
+  position: 0,
+  archived: false,
+  inherited_low_stock_threshold: 5,
+  product_count: 0,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const product: Product = {
+  id: 'p1',
+  name: 'Gold Ring',
+  description: 'A plain gold band',
+  price: 129.9,
+  category: 'rings',
+  stock_quantity: 7,
+  status: 'draft',
+  effective_low_stock_threshold: 5,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const renderForm = (props: { product?: Product; serverErrors?: ProductFieldErrors } = {}) => {
+  const onSubmit = jest.fn();
+
+  const Harness = () => {
+    const [state, setState] = useState<ProductFormState>({ values: emptyProductFormValues, options: [], variants: [] });
+    return (
+      <ProductForm
+        state={state}
+        onChange={setState}
+        categories={[rings]}
+        isSubmitting={false}
+        submitLabel="Save"
+        submittingLabel="Saving..."
+        onSubmit={onSubmit}
+        onCancel={jest.fn()}
+        {...props}
+      />
+    );
+  };
+
+  render(<Harness />);
+  return { onSubmit };
+};
+
+const fill = (label: RegExp, value: string) =>
+  fireEvent.change(screen.getByLabelText(label), { target: { value } });
+
+describe('ProductForm', () => {
+  test('shows field errors instead of submitting invalid values', () => {
+    const { onSubmit } = renderForm();
+    fill(/price/i, '12.345');
+    fireEvent.click(screen.getByRole('button', { name: /save/i }));
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(screen.getByText('Name is required')).toBeInTheDocument();
+    expect(screen.getByText(/at most 2 decimals/)).toBeInTheDocument();
+    expect(screen.getByLabelText(/product name/i)).toHaveAttribute('aria-invalid', 'true');
+  });
+
+  test('validates a field when it loses focus and clears the error on change', () => {
+    renderForm();
+    fireEvent.blur(screen.getByLabelText(/product name/i));
+    expect(screen.getByText('Name is required')).toBeInTheDocument();
+
+    fill(/product name/i, 'Gold Ring');
+    expect(screen.queryByText('Name is required')).not.toBeInTheDocument();
+  });
+
+  test('submits parsed product input', () => {
+    const { onSubmit } = renderForm();
+    fill(/product name/i, 'Gold Ring');
+    fill(/description/i, 'A plain gold band');
+    fill(/price/i, '129.90');
+    fill(/stock quantity/i, '4');
+    fill(/category/i, 'rings');
+    fireEvent.click(screen.getByRole('button', { name: /save/i }));
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      name: 'Gold Ring',
+      description: 'A plain gold band',
+      price: 129.9,
+      category: 'rings',
+      stock_quantity: 4,
+      options: [],
+      variants: [],
+    });
+  });
+
+  test('shows errors returned by the server on their fields', () => {
+    renderForm({ serverErrors: { sku: 'SKU is already in use' } });
+    expect(screen.getByText('SKU is already in use')).toBeInTheDocument();
+  });
+
+  test('keeps the saved stock level of an existing product', () => {
+    renderForm({ product });
+    expect(screen.getByLabelText(/stock quantity/i)).toBeDisabled();
+    expect(screen.getByLabelText(/stock quantity/i)).toHaveValue(7);
+  });
+});
@@ -0,0 +1,313 @@
+import React, { useEffect, useState } from 'react';
+import { ArchiveBoxArrowDownIcon, CheckIcon } from '@heroicons/react/24/outline';
+import { Category, Product, ProductImage, ProductInput, ProductOption, ProductVariant } from '../../types';
+import {
+  PRODUCT_FIELD_MAX_LENGTHS,
+  ProductFieldErrors,
+  ProductFormField,
+  ProductFormValues,
+  validateProductField,
+  validateProductValues,
+} from '../../services/productValidation';
+import { getCategoryOptions } from '../../services/categories';
+import { getCategoryThreshold } from '../../services/stockLevels';
+import { getTotalStock, skuFromName, validateVariants } from '../../services/productVariants';
+import { VariantEditor } from './VariantEditor';
+
+export interface ProductFormState {
+  values: Required<ProductFormValues>;
+  options: ProductOption[];
+  variants: ProductVariant[];
+}
+
+interface ProductFormProps {
+  state: ProductFormState;
+  onChange: (state: ProductFormState) => void;
+  // Categories the product may be placed in; the chosen one is checked against this list
+  categories: Category[];
+  categoriesLoading?: boolean;
+  // Set when editing: stock becomes read-only and is changed through onAdjustStock
+  product?: Product;
+  images?: ProductImage[];
+  onAdjustStock?: () => void;
+  // Field messages from the backend after a failed save
+  serverErrors?: ProductFieldErrors;
+  isSubmitting: boolean;
+  submitLabel: string;
+  submittingLabel: string;
+  onSubmit: (input: ProductInput) => void;
+  onCancel: () => void;
+  // Extra sections shown above the form buttons
+  children?: React.ReactNode;
+}
+
+const inputClass = (hasError: boolean) =>
+  `w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none disabled:bg-gray-100 ${
+    hasError
+      ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
+      : 'border-gray-300 focus:ring-iguana-500 focus:border-iguana-500'
+  }`;
+
+export const ProductForm: React.FC<ProductFormProps> = ({
+  state,
+  onChange,
+  categories,
+  categoriesLoading = false,
+  product,
+  images,
+  onAdjustStock,
+  serverErrors,
+  isSubmitting,
+  submitLabel,
+  submittingLabel,
+  onSubmit,
+  onCancel,
+  children,
+}) => {
+  const { values, options, variants } = state;
+  const [errors, setErrors] = useState<ProductFieldErrors>({});
+  const [variantErrors, setVariantErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (serverErrors) setErrors(serverErrors);
+  }, [serverErrors]);
+
+  // Saved products keep their stock level; it only changes through the inventory ledger
+  const stockEditable = !product;
+  const stock = variants.length > 0
+    ? String(getTotalStock({ stock_quantity: 0, variants }))
+    : stockEditable ? values.stock_quantity : String(product.stock_quantity);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const field = e.target.name as ProductFormField;
+    onChange({ ...state, values: { ...values, [field]: e.target.value } });
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const field = e.target.name as ProductFormField;
+    setErrors(prev => ({ ...prev, [field]: validateProductField(field, values[field]) }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { input, errors: validationErrors } = validateProductValues({ ...values, stock_quantity: stock }, categories);
+    const nextVariantErrors = validateVariants(variants);
+    setErrors(validationErrors);
+    setVariantErrors(nextVariantErrors);
+    if (!input || nextVariantErrors.length > 0) return;
+
+    onSubmit({ ...input, options, variants });
+  };
+
+  const fieldError = (field: ProductFormField) =>
+    errors[field] && (
+      <p id={`${field}-error`} className="mt-1 text-sm text-red-600">
+        {errors[field]}
+      </p>
+    );
+
+  const fieldProps = (field: ProductFormField) => ({
+    id: field,
+    name: field,
+    value: values[field],
+    onChange: handleInputChange,
+    onBlur: handleBlur,
+    'aria-invalid': Boolean(errors[field]),
+    'aria-describedby': errors[field] ? `${field}-error` : undefined,
+    className: inputClass(Boolean(errors[field])),
+  });
+
+  const categoryOptions = getCategoryOptions(categories);
+  const selectedCategory = categories.find(category => category.slug === values.category);
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-6">
+      <div>
+        <label htmlFor="name" className="block text-sm font-medium text-admin-700 mb-2">
+          Product Name *
+        </label>
+        <input
+          type="text"
+          {...fieldProps('name')}
+          maxLength={PRODUCT_FIELD_MAX_LENGTHS.name}
+          placeholder="Enter product name"
+        />
+        {fieldError('name')}
+      </div>
+
+      <div>
+        <label htmlFor="description" className="block text-sm font-medium text-admin-700 mb-2">
+          Description *
+        </label>
+        <textarea
+          {...fieldProps('description')}
+          rows={4}
+          maxLength={PRODUCT_FIELD_MAX_LENGTHS.description}
+          placeholder="Enter product description"
+        />
+        <p className="mt-1 text-xs text-admin-600 text-right">
+          {values.description.length} / {PRODUCT_FIELD_MAX_LENGTHS.description}
+        </p>
+        {fieldError('description')}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="price" className="block text-sm font-medium text-admin-700 mb-2">
+            Price ($) *
+          </label>
+          <input
+            type="number"
+            {...fieldProps('price')}
+            min="0.01"
+            step="0.01"
+            placeholder="0.00"
+          />
+          {fieldError('price')}
+        </div>
+
+        <div>
+          <label htmlFor="sku" className="block text-sm font-medium text-admin-700 mb-2">
+            SKU
+          </label>
+          <input
+            type="text"
+            {...fieldProps('sku')}
+            maxLength={PRODUCT_FIELD_MAX_LENGTHS.sku}
+            placeholder={skuFromName(values.name) || 'e.g. RING-GOLD'}
+          />
+          {fieldError('sku')}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="stock_quantity" className="block text-sm font-medium text-admin-700 mb-2">
+            Stock Quantity{stockEditable && ' *'}
+          </label>
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              {...fieldProps('stock_quantity')}
+              value={stock}
+              disabled={!stockEditable || variants.length > 0}
+              min="0"
+              placeholder="0"
+            />
+            {!stockEditable && onAdjustStock && (
+              <button
+                type="button"
+                onClick={onAdjustStock}
+                className="flex-shrink-0 inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-iguana-500"
+              >
+                <ArchiveBoxArrowDownIcon className="h-4 w-4 mr-2" />
+                Adjust Stock
+              </button>
+            )}
+          </div>
+          {(variants.length > 0 || !stockEditable) && (
+            <p className="mt-1 text-sm text-admin-600">
+              {variants.length > 0 ? 'Total of all variants. ' : ''}
+              {!stockEditable && 'Every change is recorded in the inventory ledger.'}
+            </p>
+          )}
+          {fieldError('stock_quantity')}
+        </div>
+
+        <div>
+          <label htmlFor="low_stock_threshold" className="block text-sm font-medium text-admin-700 mb-2">
+            Low-Stock Threshold
+          </label>
+          <input
+            type="number"
+            {...fieldProps('low_stock_threshold')}
+            min="0"
+            placeholder={selectedCategory ? `Category default (${getCategoryThreshold(selectedCategory)})` : 'Category default'}
+          />
+          <p className="mt-1 text-sm text-admin-600">Leave empty to use the category default.</p>
+          {fieldError('low_stock_threshold')}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="category" className="block text-sm font-medium text-admin-700 mb-2">
+          Category *
+        </label>
+        <select {...fieldProps('category')} disabled={categoriesLoading}>
+          <option value="">{categoriesLoading ? 'Loading categories...' : 'Select a category'}</option>
+          {values.category && !categoriesLoading && !categoryOptions.some(option => option.value === values.category) && (
+            <option value={values.category}>{values.category}</option>
+          )}
+          {categoryOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {fieldError('category')}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-admin-700 mb-1">
+          Variants
+        </label>
+        <p className="text-sm text-admin-600 mb-4">
+          Add sizes, metals, lengths or stones to sell this product in several versions.
+        </p>
+        {variantErrors.length > 0 && (
+          <div className="mb-4 rounded-md bg-red-50 p-3">
+            {variantErrors.map(error => (
+              <p key={error} className="text-sm text-red-700">{error}</p>
+            ))}
+          </div>
+        )}
+        <VariantEditor
+          options={options}
+          variants={variants}
+          basePrice={values.price}
+          baseSku={values.sku.trim() || product?.sku || skuFromName(values.name)}
+          images={images}
+          stockEditable={stockEditable}
+          onChange={(nextOptions, nextVariants) => {
+            onChange({ ...state, options: nextOptions, variants: nextVariants });
+            setVariantErrors([]);
+          }}
+        />
+      </div>
+
+      {children}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-iguana-500"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 bg-iguana-600 text-white rounded-md hover:bg-iguana-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-iguana-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+        >
+          {isSubmitting ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+              {submittingLabel}
+            </>
+          ) : (
+            <>
+              <CheckIcon className="h-4 w-4 mr-2" />
+              {submitLabel}
+            </>
+          )}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ProductForm;
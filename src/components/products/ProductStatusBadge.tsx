@@ -0,0 +1,33 @@
+import React from 'react';
+import { Product } from '../../types';
+import { PRODUCT_STATUS_LABELS } from '../../services/productPublication';
+
+interface ProductStatusBadgeProps {
+  product: Pick<Product, 'status' | 'publish_at'>;
+  size?: 'sm' | 'md';
+}
+
+const statusColors: Record<Product['status'], string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  published: 'bg-green-100 text-green-800',
+  archived: 'bg-yellow-100 text-yellow-800',
+};
+
+export const ProductStatusBadge: React.FC<ProductStatusBadgeProps> = ({ product, size = 'sm' }) => {
+  const sizeClasses = size === 'md' ? 'px-3 py-1 text-sm' : 'px-2.5 py-0.5 text-xs';
+  const scheduledFor =
+    product.status === 'scheduled' && product.publish_at ? new Date(product.publish_at).toLocaleString() : undefined;
+
+  return (
+    <span
+      className={`inline-flex items-center rounded-full font-medium ${sizeClasses} ${statusColors[product.status]}`}
+      title={scheduledFor && `Goes live ${scheduledFor}`}
+    >
+      {PRODUCT_STATUS_LABELS[product.status]}
+      {scheduledFor && size === 'md' && <span className="ml-1 font-normal">· {scheduledFor}</span>}
+    </span>
+  );
+};
+
+export default ProductStatusBadge;
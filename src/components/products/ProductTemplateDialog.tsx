@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import { DocumentTextIcon } from '@heroicons/react/24/outline';
+import { Category, ProductTemplate, ProductTemplateInput } from '../../types';
+import { getCategoryOptions } from '../../services/categories';
+import { PRODUCT_FIELD_MAX_LENGTHS } from '../../services/productValidation';
+
+interface ProductTemplateDialogProps {
+  isOpen: boolean;
+  // The template being edited, or the values a new template starts from
+  initialValues?: Partial<ProductTemplate>;
+  categories: Category[];
+  isSubmitting?: boolean;
+  onClose: () => void;
+  onSubmit: (input: ProductTemplateInput) => void;
+}
+
+export const ProductTemplateDialog: React.FC<ProductTemplateDialogProps> = ({
+  isOpen,
+  initialValues,
+  categories,
+  isSubmitting = false,
+  onClose,
+  onSubmit,
+}) => {
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState('');
+  const [description, setDescription] = useState('');
+  const [careInstructions, setCareInstructions] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(initialValues?.name || '');
+      setCategory(initialValues?.category || '');
+      setDescription(initialValues?.description || '');
+      setCareInstructions(initialValues?.care_instructions || '');
+      setError('');
+    }
+  }, [isOpen, initialValues]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Template name is required');
+      return;
+    }
+
+    onSubmit({
+      name: name.trim(),
+      category,
+      description: description.trim(),
+      care_instructions: careInstructions.trim(),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center p-6 border-b border-gray-200">
+          <div className="flex-shrink-0 flex items-center justify-center h-10 w-10 rounded-full bg-iguana-100">
+            <DocumentTextIcon className="h-6 w-6 text-iguana-600" />
+          </div>
+          <div className="ml-4">
+            <h2 className="text-lg font-medium text-gray-900">
+              {initialValues?.id ? 'Edit Template' : 'New Template'}
+            </h2>
+            <p className="text-sm text-gray-500">Prefills the category and description of new products.</p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 p-3">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="template_name" className="block text-sm font-medium text-gray-700">
+              Template name *
+            </label>
+            <input
+              id="template_name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+              placeholder="e.g. Gold ring with stone"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="template_category" className="block text-sm font-medium text-gray-700">
+              Default category
+            </label>
+            <select
+              id="template_category"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+            >
+              <option value="">No default</option>
+              {getCategoryOptions(categories).map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="template_description" className="block text-sm font-medium text-gray-700">
+              Description boilerplate
+            </label>
+            <textarea
+              id="template_description"
+              rows={4}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={PRODUCT_FIELD_MAX_LENGTHS.description}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="template_care" className="block text-sm font-medium text-gray-700">
+              Care instructions
+            </label>
+            <textarea
+              id="template_care"
+              rows={3}
+              value={careInstructions}
+              onChange={(e) => setCareInstructions(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-iguana-500 focus:border-iguana-500 sm:text-sm"
+              placeholder="e.g. Remove before swimming. Polish with a soft, dry cloth."
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200 bg-gray-50">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-iguana-600 text-white rounded-md text-sm font-medium hover:bg-iguana-700 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Saving...' : 'Save Template'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ProductTemplateDialog;
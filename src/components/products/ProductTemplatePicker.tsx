@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { DocumentTextIcon, PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Category, ProductTemplate, ProductTemplateInput } from '../../types';
+import { useAdminApi } from '../../services/api';
+import { useProductTemplates } from '../../services/productTemplates';
+import { ProductTemplateDialog } from './ProductTemplateDialog';
+import { ConfirmationDialog } from '../ui/ConfirmationDialog';
+
+interface ProductTemplatePickerProps {
+  categories: Category[];
+  // Category and description of the form, offered when saving a new template
+  currentValues: Pick<ProductTemplate, 'category' | 'description'>;
+  onApply: (template: ProductTemplate) => void;
+}
+
+export const ProductTemplatePicker: React.FC<ProductTemplatePickerProps> = ({ categories, currentValues, onApply }) => {
+  const api = useAdminApi();
+  const { templates, isLoading, error: loadError, setTemplates } = useProductTemplates();
+  const [selectedId, setSelectedId] = useState('');
+  const [dialogValues, setDialogValues] = useState<Partial<ProductTemplate> | null>(null);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const selected = templates.find(template => template.id === selectedId);
+
+  const handleSave = async (input: ProductTemplateInput) => {
+    try {
+      setIsSubmitting(true);
+      setError('');
+      if (dialogValues?.id) {
+        const updated = await api.productTemplates.update(dialogValues.id, input);
+        setTemplates(templates.map(template => (template.id === updated.id ? updated : template)));
+      } else {
+        const created = await api.productTemplates.create(input);
+        setTemplates([...templates, created]);
+        setSelectedId(created.id);
+      }
+      setDialogValues(null);
+    } catch (err: any) {
+      console.error('Error saving product template:', err);
+      setError(err.message || 'Failed to save product template');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+
+    try {
+      setError('');
+      await api.productTemplates.remove(selected.id);
+      setTemplates(templates.filter(template => template.id !== selected.id));
+      setSelectedId('');
+    } catch (err: any) {
+      console.error('Error deleting product template:', err);
+      setError(err.message || 'Failed to delete product template');
+    } finally {
+      setShowDeleteDialog(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4">
+      <div className="flex items-center mb-3">
+        <DocumentTextIcon className="h-5 w-5 text-iguana-600 mr-2" />
+        <h2 className="text-sm font-medium text-admin-900">Start from a template</h2>
+      </div>
+
+      {(error || loadError) && <p className="mb-3 text-sm text-red-600">{error || loadError}</p>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          disabled={isLoading}
+          aria-label="Product template"
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+        >
+          <option value="">
+            {isLoading ? 'Loading templates...' : templates.length === 0 ? 'No templates yet' : 'Select a template'}
+          </option>
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => selected && onApply(selected)}
+          disabled={!selected}
+          className="px-3 py-2 bg-iguana-600 text-white rounded-md text-sm font-medium hover:bg-iguana-700 disabled:opacity-50"
+        >
+          Apply
+        </button>
+        <button
+          type="button"
+          onClick={() => selected && setDialogValues(selected)}
+          disabled={!selected}
+          title="Edit template"
+          className="p-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <PencilIcon className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowDeleteDialog(true)}
+          disabled={!selected}
+          title="Delete template"
+          className="p-2 border border-gray-300 rounded-md text-red-600 bg-white hover:bg-red-50 disabled:opacity-50"
+        >
+          <TrashIcon className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => setDialogValues(currentValues)}
+          className="flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Save as Template
+        </button>
+      </div>
+
+      <ProductTemplateDialog
+        isOpen={dialogValues !== null}
+        initialValues={dialogValues || undefined}
+        categories={categories}
+        isSubmitting={isSubmitting}
+        onClose={() => setDialogValues(null)}
+        onSubmit={handleSave}
+      />
+
+      <ConfirmationDialog
+        isOpen={showDeleteDialog}
+        onClose={() => setShowDeleteDialog(false)}
+        onConfirm={handleDelete}
+        title="Delete Template"
+        message={`Delete the template "${selected?.name}"? Products created from it are not affected.`}
+        confirmText="Delete"
+        confirmButtonClass="bg-red-600 hover:bg-red-700 focus:ring-red-500"
+      />
+    </div>
+  );
+};
+
+export default ProductTemplatePicker;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { useAdminApi } from '../../services/api';
+import {
+  fromDateTimeInput,
+  getPublishChecklist,
+  isReadyToPublish,
+  toDateTimeInput,
+} from '../../services/productPublication';
+import { Product, ProductImage, ProductPublicationUpdate } from '../../types';
+import { ProductStatusBadge } from './ProductStatusBadge';
+
+interface PublicationPanelProps {
+  // The saved product; unsaved form edits do not count towards the checklist
+  product: Product;
+  images: ProductImage[];
+  onUpdated: (product: Product) => void;
+}
+
+export const PublicationPanel: React.FC<PublicationPanelProps> = ({ product, images, onUpdated }) => {
+  const api = useAdminApi();
+  const [publishAt, setPublishAt] = useState(product.publish_at ? toDateTimeInput(product.publish_at) : '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const checklist = getPublishChecklist(product, images);
+  const ready = isReadyToPublish(checklist);
+  const scheduleInFuture = publishAt !== '' && new Date(publishAt).getTime() > Date.now();
+
+  const updateStatus = async (update: ProductPublicationUpdate) => {
+    try {
+      setIsSaving(true);
+      setError('');
+      onUpdated(await api.products.updateStatus(product.id, update));
+    } catch (err: any) {
+      console.error('Error updating product status:', err);
+      setError(err.message || 'Failed to update product status');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const buttonClass =
+    'px-3 py-2 rounded-md text-sm font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-iguana-500 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium text-admin-700">Publication</h2>
+        <ProductStatusBadge product={product} size="md" />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {product.status !== 'published' && product.status !== 'archived' && (
+        <>
+          <ul className="space-y-1">
+            {checklist.map(item => (
+              <li key={item.id} className="flex items-center text-sm">
+                {item.passed ? (
+                  <CheckCircleIcon className="h-4 w-4 text-green-600 mr-2" />
+                ) : (
+                  <XCircleIcon className="h-4 w-4 text-red-500 mr-2" />
+                )}
+                <span className={item.passed ? 'text-gray-700' : 'text-gray-900'}>{item.label}</span>
+              </li>
+            ))}
+          </ul>
+          {!ready && (
+            <p className="text-xs text-gray-500">
+              Complete the checklist and save your changes before publishing.
+            </p>
+          )}
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label htmlFor="publish_at" className="block text-xs font-medium text-gray-600 mb-1">
+                Publish at
+              </label>
+              <input
+                id="publish_at"
+                type="datetime-local"
+                value={publishAt}
+                onChange={(e) => setPublishAt(e.target.value)}
+                className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+              />
+            </div>
+            <button
+              type="button"
+              disabled={isSaving || !ready || !scheduleInFuture}
+              onClick={() => updateStatus({ status: 'scheduled', publish_at: fromDateTimeInput(publishAt) })}
+              className={`${buttonClass} border border-gray-300 bg-white text-gray-700 hover:bg-gray-50`}
+              title={scheduleInFuture ? undefined : 'Pick a date and time in the future'}
+            >
+              {product.status === 'scheduled' ? 'Reschedule' : 'Schedule'}
+            </button>
+            <button
+              type="button"
+              disabled={isSaving || !ready}
+              onClick={() => updateStatus({ status: 'published' })}
+              className={`${buttonClass} bg-iguana-600 text-white hover:bg-iguana-700`}
+            >
+              Publish Now
+            </button>
+          </div>
+        </>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        {(product.status === 'scheduled' || product.status === 'published') && (
+          <button
+            type="button"
+            disabled={isSaving}
+            onClick={() => updateStatus({ status: 'draft' })}
+            className={`${buttonClass} border border-gray-300 bg-white text-gray-700 hover:bg-gray-50`}
+          >
+            {product.status === 'scheduled' ? 'Cancel Schedule' : 'Unpublish'}
+          </button>
+        )}
+        {product.status === 'archived' ? (
+          <button
+            type="button"
+            disabled={isSaving}
+            onClick={() => updateStatus({ status: 'draft' })}
+            className={`${buttonClass} border border-gray-300 bg-white text-gray-700 hover:bg-gray-50`}
+          >
+            Restore as Draft
+          </button>
+        ) : (
+          <button
+            type="button"
+            disabled={isSaving}
+            onClick={() => updateStatus({ status: 'archived' })}
+            className={`${buttonClass} border border-red-300 bg-white text-red-700 hover:bg-red-50`}
+          >
+            Archive
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PublicationPanel;
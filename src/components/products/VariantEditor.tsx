@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { ProductImage, ProductOption, ProductVariant, VariantAxis } from '../../types';
+import {
+  VARIANT_AXES,
+  VARIANT_AXIS_LABELS,
+  generateVariantMatrix,
+  getVariantLabel,
+} from '../../services/productVariants';
+
+interface VariantEditorProps {
+  options: ProductOption[];
+  variants: ProductVariant[];
+  basePrice: string;
+  baseSku: string;
+  // Images can only be linked once the product exists and has some
+  images?: ProductImage[];
+  // Saved products change stock through the inventory ledger instead
+  stockEditable?: boolean;
+  onChange: (options: ProductOption[], variants: ProductVariant[]) => void;
+}
+
+const axisPlaceholders: Record<VariantAxis, string> = {
+  size: 'e.g. 6, 7, 8',
+  metal: 'e.g. Gold, Silver',
+  length: 'e.g. 16", 18"',
+  stone: 'e.g. Ruby, Sapphire',
+};
+
+export const VariantEditor: React.FC<VariantEditorProps> = ({
+  options,
+  variants,
+  basePrice,
+  baseSku,
+  images = [],
+  stockEditable = true,
+  onChange,
+}) => {
+  const [drafts, setDrafts] = useState<Partial<Record<VariantAxis, string>>>({});
+
+  const valuesFor = (axis: VariantAxis) => options.find(option => option.axis === axis)?.values || [];
+
+  const updateOptions = (axis: VariantAxis, values: string[]) => {
+    const next = VARIANT_AXES
+      .map(a => ({ axis: a, values: a === axis ? values : valuesFor(a) }))
+      .filter(option => option.values.length > 0);
+    onChange(next, generateVariantMatrix(next, variants, baseSku));
+  };
+
+  const addValue = (axis: VariantAxis) => {
+    const added = (drafts[axis] || '').split(',').map(v => v.trim()).filter(Boolean);
+    const current = valuesFor(axis);
+    const values = [...current, ...added.filter(v => !current.includes(v))];
+    setDrafts({ ...drafts, [axis]: '' });
+    if (values.length !== current.length) updateOptions(axis, values);
+  };
+
+  const updateVariant = (index: number, changes: Partial<ProductVariant>) => {
+    onChange(options, variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {VARIANT_AXES.map(axis => (
+          <div key={axis}>
+            <label htmlFor={`axis-${axis}`} className="block text-sm font-medium text-admin-700 mb-1">
+              {VARIANT_AXIS_LABELS[axis]}
+            </label>
+            <div className="flex flex-wrap gap-1 mb-2">
+              {valuesFor(axis).map(value => (
+                <span key={value} className="inline-flex items-center rounded-full bg-iguana-100 px-2 py-0.5 text-xs text-iguana-800">
+                  {value}
+                  <button
+                    type="button"
+                    onClick={() => updateOptions(axis, valuesFor(axis).filter(v => v !== value))}
+                    className="ml-1 text-iguana-600 hover:text-iguana-900"
+                    title={`Remove ${value}`}
+                  >
+                    <XMarkIcon className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <input
+              id={`axis-${axis}`}
+              type="text"
+              value={drafts[axis] || ''}
+              onChange={(e) => setDrafts({ ...drafts, [axis]: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addValue(axis);
+                }
+              }}
+              onBlur={() => addValue(axis)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500 text-sm"
+              placeholder={axisPlaceholders[axis]}
+            />
+          </div>
+        ))}
+      </div>
+
+      {variants.length > 0 && (
+        <div className="overflow-x-auto border border-gray-200 rounded-md">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Variant', 'SKU', 'Price ($)', 'Stock', ...(images.length > 0 ? ['Image'] : [])].map(heading => (
+                  <th key={heading} scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {variants.map((variant, index) => (
+                <tr key={getVariantLabel(variant)}>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-900">{getVariantLabel(variant)}</td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="text"
+                      value={variant.sku}
+                      onChange={(e) => updateVariant(index, { sku: e.target.value })}
+                      className="w-40 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={variant.price ?? ''}
+                      onChange={(e) => updateVariant(index, { price: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                      placeholder={basePrice || '0.00'}
+                      className="w-28 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    {stockEditable ? (
+                      <input
+                        type="number"
+                        min="0"
+                        value={variant.stock_quantity}
+                        onChange={(e) => updateVariant(index, { stock_quantity: Math.max(0, parseInt(e.target.value) || 0) })}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+                      />
+                    ) : (
+                      <span className="text-gray-900">{variant.stock_quantity}</span>
+                    )}
+                  </td>
+                  {images.length > 0 && (
+                    <td className="px-3 py-2">
+                      <select
+                        value={variant.image_id || ''}
+                        onChange={(e) => updateVariant(index, { image_id: e.target.value || undefined })}
+                        className="w-32 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+                      >
+                        <option value="">Product image</option>
+                        {images.map((image, i) => (
+                          <option key={image.id} value={image.id}>
+                            Image {i + 1}{image.is_main ? ' (main)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="px-3 py-2 text-xs text-gray-500 bg-gray-50 border-t border-gray-200">
+            Leave the price empty to use the product price. Product stock is the total of all variants.
+            {!stockEditable && ' New variants start without stock; adjust it once the product is saved.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantEditor;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { CheckCircleIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
+import { BulkProgress } from '../../services/bulkActions';
+
+export interface BulkResultRow {
+  key: string;
+  label: string;
+  error?: string;
+}
+
+interface BulkActionResultsProps {
+  title: string;
+  progress: BulkProgress;
+  // Undefined while the action is still running
+  results?: BulkResultRow[];
+  onClose: () => void;
+}
+
+export const BulkActionResults: React.FC<BulkActionResultsProps> = ({
+  title,
+  progress,
+  results,
+  onClose,
+}) => {
+  const failures = results?.filter(result => result.error) || [];
+  const succeeded = results ? results.length - failures.length : progress.completed;
+  const percent = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 100;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">{title}</h2>
+          <p className="text-sm text-gray-500">
+            {results
+              ? `${succeeded} succeeded, ${failures.length} failed`
+              : `Processing ${Math.min(progress.completed + 1, progress.total)} of ${progress.total}...`}
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className={`h-2 transition-all ${failures.length > 0 ? 'bg-orange-500' : 'bg-iguana-600'}`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+
+          {results && failures.length === 0 && (
+            <div className="flex items-center text-sm text-green-700">
+              <CheckCircleIcon className="h-5 w-5 mr-2" />
+              All {results.length} completed successfully.
+            </div>
+          )}
+
+          {failures.length > 0 && (
+            <ul className="max-h-64 overflow-y-auto border border-red-200 rounded-md divide-y divide-red-100">
+              {failures.map(failure => (
+                <li key={failure.key} className="flex items-start px-3 py-2 text-sm">
+                  <ExclamationCircleIcon className="h-5 w-5 text-red-500 mr-2 flex-shrink-0" />
+                  <div>
+                    <p className="font-medium text-gray-900">{failure.label}</p>
+                    <p className="text-red-700">{failure.error}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-end p-6 border-t border-gray-200 bg-gray-50">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={!results}
+            className="px-4 py-2 bg-iguana-600 text-white rounded-md text-sm font-medium hover:bg-iguana-700 disabled:opacity-50"
+          >
+            {results ? 'Done' : 'Working...'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkActionResults;
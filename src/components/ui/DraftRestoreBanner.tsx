@@ -0,0 +1,46 @@
+import React from 'react';
+import { ClockIcon } from '@heroicons/react/24/outline';
+
+interface DraftRestoreBannerProps {
+  savedAt: string;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const DraftRestoreBanner: React.FC<DraftRestoreBannerProps> = ({ savedAt, onRestore, onDiscard }) => (
+  <div className="mb-6 bg-blue-50 border border-blue-200 rounded-md p-4 flex items-center justify-between">
+    <div className="flex items-center">
+      <ClockIcon className="h-5 w-5 text-blue-500 mr-3" />
+      <p className="text-sm text-blue-800">
+        You have unsaved changes from {formatDate(savedAt)}.
+      </p>
+    </div>
+    <div className="flex space-x-2">
+      <button
+        type="button"
+        onClick={onRestore}
+        className="px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+      >
+        Restore Draft
+      </button>
+      <button
+        type="button"
+        onClick={onDiscard}
+        className="px-3 py-1.5 border border-blue-300 rounded-md text-sm font-medium text-blue-700 bg-white hover:bg-blue-50"
+      >
+        Discard
+      </button>
+    </div>
+  </div>
+);
+
+export default DraftRestoreBanner;
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { ExportFormat, ExportRequest, ExportScope } from '../../services/export';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  title: string;
+  columns: { id: string; label: string; group?: string }[];
+  defaultColumnIds?: string[];
+  // Number of selected rows; the "selected" scope is offered when above zero
+  selectedCount?: number;
+  hasFilters?: boolean;
+  initialScope?: ExportScope;
+  hint?: string;
+  onClose: () => void;
+  onExport: (request: ExportRequest) => Promise<void>;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  isOpen,
+  title,
+  columns,
+  defaultColumnIds,
+  selectedCount = 0,
+  hasFilters = false,
+  initialScope,
+  hint,
+  onClose,
+  onExport,
+}) => {
+  const [scope, setScope] = useState<ExportScope>('filtered');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columnIds, setColumnIds] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setScope(initialScope || (selectedCount > 0 ? 'selected' : 'filtered'));
+      setColumnIds(defaultColumnIds || columns.map(column => column.id));
+      setError('');
+    }
+  }, [isOpen, initialScope, selectedCount, defaultColumnIds, columns]);
+
+  if (!isOpen) return null;
+
+  const groups = columns.reduce<Record<string, typeof columns>>((grouped, column) => {
+    const group = column.group || '';
+    grouped[group] = [...(grouped[group] || []), column];
+    return grouped;
+  }, {});
+
+  const toggleColumn = (id: string) => {
+    setColumnIds(columnIds.includes(id) ? columnIds.filter(c => c !== id) : [...columnIds, id]);
+  };
+
+  const scopes: { value: ExportScope; label: string }[] = [
+    ...(selectedCount > 0 ? [{ value: 'selected' as const, label: `Selected rows (${selectedCount})` }] : []),
+    { value: 'filtered', label: hasFilters ? 'Current filtered view' : 'Current view' },
+    { value: 'all', label: 'Everything' },
+  ];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (columnIds.length === 0) {
+      setError('Select at least one column');
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+      setError('');
+      // Keep the column order from the definitions, not the click order
+      await onExport({ scope, format, columnIds: columns.map(c => c.id).filter(id => columnIds.includes(id)) });
+      onClose();
+    } catch (err: any) {
+      console.error('Error exporting data:', err);
+      setError(err.message || 'Failed to export data');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">{title}</h2>
+          {hint && <p className="text-sm text-gray-500">{hint}</p>}
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {error && (
+            <div className="rounded-md bg-red-50 p-3">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-6">
+            <fieldset>
+              <legend className="text-sm font-medium text-gray-700 mb-2">Rows</legend>
+              <div className="space-y-2">
+                {scopes.map(option => (
+                  <label key={option.value} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="export_scope"
+                      checked={scope === option.value}
+                      onChange={() => setScope(option.value)}
+                      className="mr-2 text-iguana-600 focus:ring-iguana-500"
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+            <fieldset>
+              <legend className="text-sm font-medium text-gray-700 mb-2">Format</legend>
+              <div className="space-y-2">
+                {([['csv', 'CSV'], ['xlsx', 'Excel (XLSX)']] as const).map(([value, label]) => (
+                  <label key={value} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="export_format"
+                      checked={format === value}
+                      onChange={() => setFormat(value)}
+                      className="mr-2 text-iguana-600 focus:ring-iguana-500"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          </div>
+
+          <fieldset>
+            <div className="flex items-center justify-between mb-2">
+              <legend className="text-sm font-medium text-gray-700">Columns</legend>
+              <div className="space-x-3 text-xs">
+                <button type="button" onClick={() => setColumnIds(columns.map(c => c.id))} className="text-iguana-600 hover:text-iguana-800">
+                  Select all
+                </button>
+                <button type="button" onClick={() => setColumnIds([])} className="text-iguana-600 hover:text-iguana-800">
+                  Clear
+                </button>
+              </div>
+            </div>
+            <div className="space-y-4">
+              {Object.entries(groups).map(([group, groupColumns]) => (
+                <div key={group}>
+                  {group && <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">{group}</p>}
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                    {groupColumns.map(column => (
+                      <label key={column.id} className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={columnIds.includes(column.id)}
+                          onChange={() => toggleColumn(column.id)}
+                          className="mr-2 rounded border-gray-300 text-iguana-600 focus:ring-iguana-500"
+                        />
+                        {column.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </fieldset>
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200 bg-gray-50">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isExporting}
+            className="px-4 py-2 bg-iguana-600 text-white rounded-md text-sm font-medium hover:bg-iguana-700 disabled:opacity-50 flex items-center"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ExportDialog;
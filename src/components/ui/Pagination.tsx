@@ -0,0 +1,74 @@
+import React from 'react';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+
+interface PaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+  pageSizeOptions?: number[];
+  onPageSizeChange?: (pageSize: number) => void;
+}
+
+export const Pagination: React.FC<PaginationProps> = ({
+  page,
+  pageSize,
+  total,
+  onPageChange,
+  pageSizeOptions = [10, 25, 50, 100],
+  onPageSizeChange,
+}) => {
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const firstItem = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastItem = Math.min(page * pageSize, total);
+
+  return (
+    <div className="flex items-center justify-between border-t border-gray-200 bg-white px-4 py-3 sm:px-6">
+      <p className="text-sm text-gray-700">
+        Showing <span className="font-medium">{firstItem}</span> to{' '}
+        <span className="font-medium">{lastItem}</span> of{' '}
+        <span className="font-medium">{total}</span> results
+      </p>
+      <div className="flex items-center space-x-3">
+        {onPageSizeChange && (
+          <select
+            value={pageSize}
+            onChange={(e) => onPageSizeChange(Number(e.target.value))}
+            className="text-sm border-gray-300 rounded-md focus:ring-iguana-500 focus:border-iguana-500"
+          >
+            {pageSizeOptions.map(option => (
+              <option key={option} value={option}>
+                {option} / page
+              </option>
+            ))}
+          </select>
+        )}
+        <nav className="inline-flex -space-x-px rounded-md shadow-sm" aria-label="Pagination">
+          <button
+            type="button"
+            onClick={() => onPageChange(page - 1)}
+            disabled={page <= 1}
+            className="inline-flex items-center rounded-l-md border border-gray-300 bg-white px-2 py-2 text-sm text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronLeftIcon className="h-4 w-4" />
+            <span className="sr-only">Previous</span>
+          </button>
+          <span className="inline-flex items-center border border-gray-300 bg-white px-4 py-2 text-sm text-gray-700">
+            Page {page} of {pageCount}
+          </span>
+          <button
+            type="button"
+            onClick={() => onPageChange(page + 1)}
+            disabled={page >= pageCount}
+            className="inline-flex items-center rounded-r-md border border-gray-300 bg-white px-2 py-2 text-sm text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronRightIcon className="h-4 w-4" />
+            <span className="sr-only">Next</span>
+          </button>
+        </nav>
+      </div>
+    </div>
+  );
+};
+
+export default Pagination;
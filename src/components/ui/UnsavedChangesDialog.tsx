@@ -0,0 +1,22 @@
+import React from 'react';
+import { Blocker } from 'react-router-dom';
+import { ConfirmationDialog } from './ConfirmationDialog';
+
+interface UnsavedChangesDialogProps {
+  blocker: Blocker;
+}
+
+export const UnsavedChangesDialog: React.FC<UnsavedChangesDialogProps> = ({ blocker }) => (
+  <ConfirmationDialog
+    isOpen={blocker.state === 'blocked'}
+    onClose={() => blocker.reset?.()}
+    onConfirm={() => blocker.proceed?.()}
+    title="Leave without saving?"
+    message="You have unsaved changes on this page. A draft is kept on this device, but the changes will not be saved to the product until you submit the form."
+    confirmText="Leave Page"
+    cancelText="Keep Editing"
+    confirmButtonClass="bg-red-600 hover:bg-red-700 focus:ring-red-500"
+  />
+);
+
+export default UnsavedChangesDialog;
@@ -16,6 +16,38 @@ interface AuthProviderProps {
   children: ReactNode;
 }
 
+// Thrown for unsuccessful API responses. When the backend rejects a form it
+// sends per-field messages, either as { field: message } or as a list of
+// { field, message } objects; both are collected into `fieldErrors`.
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly fieldErrors: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+const readFieldErrors = (errors: unknown): Record<string, string> => {
+  if (Array.isArray(errors)) {
+    return Object.fromEntries(
+      errors
+        .filter(error => typeof error?.field === 'string' && typeof error?.message === 'string')
+        .map(error => [error.field, error.message])
+    );
+  }
+  if (errors && typeof errors === 'object') {
+    return Object.fromEntries(
+      Object.entries(errors)
+        .map(([field, message]) => [field, Array.isArray(message) ? message[0] : message])
+        .filter(([, message]) => typeof message === 'string')
+    );
+  }
+  return {};
+};
+
 // Auth Service - handles token storage and API calls
 class AuthService {
   public baseURL: string = process.env.REACT_APP_API_URL?.replace('/api/v1', '') || 'https://localhost:8080';
@@ -205,16 +237,18 @@ class AuthService {
         
         const errorText = await response.text();
         let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+        let fieldErrors: Record<string, string> = {};
         
         try {
           const errorData = JSON.parse(errorText);
           errorMessage = errorData.message || errorMessage;
+          fieldErrors = readFieldErrors(errorData.errors);
         } catch {
           // If not JSON, use the text as is
           errorMessage = errorText || errorMessage;
         }
         
-        throw new Error(errorMessage);
+        throw new ApiRequestError(errorMessage, response.status, fieldErrors);
       }
 
       const contentType = response.headers.get('content-type');
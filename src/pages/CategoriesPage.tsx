@@ -0,0 +1,418 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAdminApi } from '../services/api';
+import {
+  CategoryNode,
+  buildCategoryTree,
+  flattenCategoryTree,
+  getDescendantIds,
+  useCategories,
+} from '../services/categories';
+import { ConfirmationDialog } from '../components/ui/ConfirmationDialog';
+import { Category } from '../types';
+import {
+  ArchiveBoxIcon,
+  ArrowUpIcon,
+  ArrowDownIcon,
+  ArrowUturnLeftIcon,
+  CheckIcon,
+  PencilIcon,
+  PlusIcon,
+  TagIcon,
+  TrashIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+
+interface CategoryDraft {
+  id: string;
+  name: string;
+  parent_id: string;
+  // Empty to inherit from the parent category
+  low_stock_threshold: string;
+}
+
+export const CategoriesPage: React.FC = () => {
+  const api = useAdminApi();
+  const { categories, isLoading, error: loadError, reload } = useCategories({ includeArchived: true });
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newParentId, setNewParentId] = useState('');
+  const [editing, setEditing] = useState<CategoryDraft | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Category | null>(null);
+
+  const visible = showArchived ? categories : categories.filter(category => !category.archived);
+  const rows = flattenCategoryTree(buildCategoryTree(visible));
+  const activeCategories = categories.filter(category => !category.archived);
+
+  // Every change is saved straight away and the tree is reloaded so
+  // positions and product counts come from the backend.
+  const save = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      setIsSaving(true);
+      setError('');
+      await action();
+      await reload();
+      return true;
+    } catch (err: any) {
+      console.error(`Error: ${failure}:`, err);
+      setError(err.message || failure);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    const created = await save(
+      () => api.categories.create({ name, parent_id: newParentId || null }),
+      'Failed to create category'
+    );
+    if (created) setNewName('');
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    const threshold = editing.low_stock_threshold.trim();
+    if (!name) {
+      setError('Category name is required');
+      return;
+    }
+    if (threshold && !/^\d+$/.test(threshold)) {
+      setError('Low-stock threshold must be a whole number of 0 or more');
+      return;
+    }
+    const saved = await save(
+      () =>
+        api.categories.update(editing.id, {
+          name,
+          parent_id: editing.parent_id || null,
+          low_stock_threshold: threshold ? parseInt(threshold, 10) : null,
+        }),
+      'Failed to update category'
+    );
+    if (saved) setEditing(null);
+  };
+
+  const siblingsOf = (node: CategoryNode) =>
+    rows.filter(row => (row.parent_id || '') === (node.parent_id || '') && row.depth === node.depth);
+
+  const handleMove = (node: CategoryNode, offset: -1 | 1) => {
+    const siblings = siblingsOf(node).map(sibling => sibling.id);
+    const index = siblings.indexOf(node.id);
+    const target = index + offset;
+    if (target < 0 || target >= siblings.length) return;
+    [siblings[index], siblings[target]] = [siblings[target], siblings[index]];
+    save(() => api.categories.reorder(siblings), 'Failed to reorder categories');
+  };
+
+  const handleArchive = (category: Category) =>
+    save(
+      () => api.categories.setArchived(category.id, !category.archived),
+      category.archived ? 'Failed to restore category' : 'Failed to archive category'
+    );
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    const category = deleteTarget;
+    setDeleteTarget(null);
+    await save(() => api.categories.remove(category.id), 'Failed to delete category');
+  };
+
+  // A category cannot be nested below itself or one of its own children
+  const parentOptionsFor = (id?: string) => {
+    const excluded = id ? getDescendantIds(categories, id) : [];
+    return flattenCategoryTree(
+      buildCategoryTree(activeCategories.filter(category => !excluded.includes(category.id)))
+    );
+  };
+
+  const renderParentOptions = (id?: string) =>
+    parentOptionsFor(id).map(node => (
+      <option key={node.id} value={node.id}>
+        {`${'— '.repeat(node.depth)}${node.name}`}
+      </option>
+    ));
+
+  if (isLoading && categories.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-iguana-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-bold text-admin-900">Categories</h1>
+          <p className="mt-2 text-sm text-admin-600">
+            Organize products into categories and subcategories
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <label className="inline-flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-iguana-600 focus:ring-iguana-500 mr-2"
+            />
+            Show archived
+          </label>
+        </div>
+      </div>
+
+      {(error || loadError) && (
+        <div className="mt-6 bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error || loadError}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="mt-6 bg-white p-4 rounded-lg border border-gray-200">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div className="md:col-span-2">
+            <label htmlFor="category-name" className="block text-sm font-medium text-gray-700 mb-2">
+              New Category
+            </label>
+            <input
+              id="category-name"
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="e.g. Engagement Rings"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="category-parent" className="block text-sm font-medium text-gray-700 mb-2">
+              Parent
+            </label>
+            <select
+              id="category-parent"
+              value={newParentId}
+              onChange={(e) => setNewParentId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+            >
+              <option value="">None (top level)</option>
+              {renderParentOptions()}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving || !newName.trim()}
+            className="inline-flex items-center justify-center rounded-md border border-transparent bg-iguana-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-iguana-700 focus:outline-none focus:ring-2 focus:ring-iguana-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <PlusIcon className="h-4 w-4 mr-2" />
+            Add Category
+          </button>
+        </div>
+      </form>
+
+      <div className="mt-6 overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
+                Name
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
+                Slug
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
+                Products
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
+                Low-Stock Threshold
+              </th>
+              <th scope="col" className="relative px-6 py-3">
+                <span className="sr-only">Actions</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rows.map(node => {
+              const siblings = siblingsOf(node);
+              const position = siblings.findIndex(sibling => sibling.id === node.id);
+              const inUse = node.product_count > 0;
+              // Archived subcategories are hidden from the tree but still block deleting
+              const hasSubcategories = categories.some(category => category.parent_id === node.id);
+
+              if (editing?.id === node.id) {
+                return (
+                  <tr key={node.id} className="bg-iguana-50">
+                    <td className="px-6 py-3" colSpan={2}>
+                      <div className="flex flex-col md:flex-row gap-2">
+                        <input
+                          type="text"
+                          value={editing.name}
+                          onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleSaveEdit();
+                            if (e.key === 'Escape') setEditing(null);
+                          }}
+                          autoFocus
+                          className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+                        />
+                        <select
+                          value={editing.parent_id}
+                          onChange={(e) => setEditing({ ...editing, parent_id: e.target.value })}
+                          className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+                        >
+                          <option value="">None (top level)</option>
+                          {renderParentOptions(node.id)}
+                        </select>
+                      </div>
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-500">{node.product_count}</td>
+                    <td className="px-6 py-3">
+                      <input
+                        type="number"
+                        min="0"
+                        value={editing.low_stock_threshold}
+                        onChange={(e) => setEditing({ ...editing, low_stock_threshold: e.target.value })}
+                        placeholder={`Inherit (${node.inherited_low_stock_threshold})`}
+                        className="w-32 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+                      />
+                    </td>
+                    <td className="px-6 py-3 text-right whitespace-nowrap">
+                      <button
+                        onClick={handleSaveEdit}
+                        disabled={isSaving}
+                        className="text-iguana-600 hover:text-iguana-900 mr-3 disabled:opacity-50"
+                        title="Save"
+                      >
+                        <CheckIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => setEditing(null)}
+                        className="text-gray-500 hover:text-gray-700"
+                        title="Cancel"
+                      >
+                        <XMarkIcon className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              }
+
+              return (
+                <tr key={node.id} className={node.archived ? 'bg-gray-50' : 'hover:bg-gray-50'}>
+                  <td className="px-6 py-3 whitespace-nowrap">
+                    <div className="flex items-center" style={{ paddingLeft: `${node.depth * 1.5}rem` }}>
+                      <TagIcon className="h-4 w-4 text-gray-400 mr-2" />
+                      <span className={`text-sm font-medium ${node.archived ? 'text-gray-400' : 'text-gray-900'}`}>
+                        {node.name}
+                      </span>
+                      {node.archived && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+                          Archived
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{node.slug}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                    {inUse ? (
+                      <Link to={`/products?category=${node.slug}`} className="text-iguana-600 hover:text-iguana-900">
+                        {node.product_count}
+                      </Link>
+                    ) : (
+                      0
+                    )}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm">
+                    {node.low_stock_threshold !== undefined ? (
+                      <span className="text-gray-900">{node.low_stock_threshold}</span>
+                    ) : (
+                      <span className="text-gray-500">{node.inherited_low_stock_threshold} (inherited)</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-right text-sm font-medium">
+                    <div className="flex items-center justify-end space-x-3">
+                      <button
+                        onClick={() => handleMove(node, -1)}
+                        disabled={isSaving || position <= 0}
+                        className="text-gray-500 hover:text-gray-700 disabled:opacity-30 disabled:cursor-not-allowed"
+                        title="Move up"
+                      >
+                        <ArrowUpIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleMove(node, 1)}
+                        disabled={isSaving || position === siblings.length - 1}
+                        className="text-gray-500 hover:text-gray-700 disabled:opacity-30 disabled:cursor-not-allowed"
+                        title="Move down"
+                      >
+                        <ArrowDownIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => setEditing({
+                          id: node.id,
+                          name: node.name,
+                          parent_id: node.parent_id || '',
+                          low_stock_threshold: node.low_stock_threshold?.toString() ?? '',
+                        })}
+                        className="text-iguana-600 hover:text-iguana-900"
+                        title="Edit"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleArchive(node)}
+                        disabled={isSaving}
+                        className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                        title={node.archived ? 'Restore' : 'Archive'}
+                      >
+                        {node.archived ? <ArrowUturnLeftIcon className="h-4 w-4" /> : <ArchiveBoxIcon className="h-4 w-4" />}
+                      </button>
+                      <button
+                        onClick={() => setDeleteTarget(node)}
+                        disabled={isSaving || inUse || hasSubcategories}
+                        className="text-red-600 hover:text-red-900 disabled:opacity-30 disabled:cursor-not-allowed"
+                        title={
+                          inUse
+                            ? `Used by ${node.product_count} product${node.product_count === 1 ? '' : 's'}; archive it instead`
+                            : hasSubcategories
+                              ? 'Move or delete its subcategories first, including archived ones'
+                              : 'Delete'
+                        }
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {rows.length === 0 && (
+          <div className="text-center py-12 bg-white">
+            <TagIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No categories</h3>
+            <p className="mt-1 text-sm text-gray-500">Add a category above to start organizing products.</p>
+          </div>
+        )}
+      </div>
+
+      <ConfirmationDialog
+        isOpen={deleteTarget !== null}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title="Delete Category"
+        message={`Are you sure you want to delete ${deleteTarget?.name}? This action cannot be undone.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        confirmButtonClass="bg-red-600 hover:bg-red-700 focus:ring-red-500"
+      />
+    </div>
+  );
+};
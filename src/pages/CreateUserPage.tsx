@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
+import { useAdminApi } from '../services/api';
 import { UserRole } from '../types/user';
 import {
   ArrowLeftIcon,
@@ -8,7 +8,7 @@ import {
 } from '@heroicons/react/24/outline';
 
 const CreateUserPage: React.FC = () => {
-  const { apiRequest } = useAuth();
+  const api = useAdminApi();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -25,13 +25,7 @@ const CreateUserPage: React.FC = () => {
     setError(null);
 
     try {
-      const newUser = await apiRequest('/admin/users', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(formData),
-      });
+      const newUser = await api.users.create(formData);
       navigate(`/users/${newUser.id}`);
     } catch (err) {
       setError('Failed to create user');
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { useAuth } from '../contexts/AuthContext';
+import { useAdminApi } from '../services/api';
+import { getRevenueSummary } from '../services/refunds';
+import { LowStockWidget } from '../components/products/LowStockWidget';
 import {
   CubeIcon,
   ShoppingBagIcon,
@@ -12,15 +14,17 @@ interface DashboardStats {
   totalOrders: number;
   totalUsers: number;
   totalRevenue: number;
+  totalRefunded: number;
 }
 
 export const Dashboard: React.FC = () => {
-  const { apiRequest } = useAuth();
+  const api = useAdminApi();
   const [stats, setStats] = useState<DashboardStats>({
     totalProducts: 0,
     totalOrders: 0,
     totalUsers: 0,
     totalRevenue: 0,
+    totalRefunded: 0,
   });
   const [isLoading, setIsLoading] = useState(true);
 
@@ -28,18 +32,20 @@ export const Dashboard: React.FC = () => {
     const fetchStats = async () => {
       try {
         const [products, orders, users] = await Promise.all([
-          apiRequest('/products'),
-          apiRequest('/admin/orders'),
-          apiRequest('/admin/users'),
+          api.products.list(),
+          api.orders.list(),
+          api.users.list(),
         ]);
 
-        const totalRevenue = orders.reduce((sum: number, order: any) => sum + order.total_amount, 0);
+        // Cancelled orders never brought money in; refunds are taken off the rest
+        const revenue = getRevenueSummary(orders);
 
         setStats({
           totalProducts: products.length,
           totalOrders: orders.length,
           totalUsers: users.length,
-          totalRevenue,
+          totalRevenue: revenue.net,
+          totalRefunded: revenue.refunded,
         });
       } catch (error) {
         console.error('Failed to fetch dashboard stats:', error);
@@ -49,9 +55,9 @@ export const Dashboard: React.FC = () => {
     };
 
     fetchStats();
-  }, [apiRequest]);
+  }, [api]);
 
-  const statCards = [
+  const statCards: { name: string; value: React.ReactNode; detail?: string; icon: typeof CubeIcon; color: string }[] = [
     {
       name: 'Total Products',
       value: stats.totalProducts,
@@ -73,6 +79,7 @@ export const Dashboard: React.FC = () => {
     {
       name: 'Total Revenue',
       value: `$${stats.totalRevenue.toLocaleString()}`,
+      detail: stats.totalRefunded > 0 ? `$${stats.totalRefunded.toLocaleString()} refunded` : undefined,
       icon: CurrencyDollarIcon,
       color: 'bg-yellow-500',
     },
@@ -112,11 +119,18 @@ export const Dashboard: React.FC = () => {
             </dt>
             <dd className="ml-16 pb-6 flex items-baseline sm:pb-7">
               <p className="text-2xl font-semibold text-gray-900">{card.value}</p>
+              {card.detail && (
+                <p className="ml-2 text-sm text-red-600">{card.detail}</p>
+              )}
             </dd>
           </div>
         ))}
       </div>
 
+      <div className="mt-8">
+        <LowStockWidget />
+      </div>
+
       {/* Quick Actions */}
       <div className="mt-8">
         <h2 className="text-lg font-medium text-admin-900 mb-4">Quick Actions</h2>
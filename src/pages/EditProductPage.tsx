@@ -1,30 +1,57 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
-import { Product } from '../types';
+import { useAdminApi } from '../services/api';
+import { Product, ProductImage, ProductInput, ProductVariant, StockAdjustmentInput } from '../types';
 import { ImageManagementModal } from '../components/images/ImageManagementModal';
-import { ArrowLeftIcon, CheckIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import { ProductForm, ProductFormState } from '../components/products/ProductForm';
+import { PublicationPanel } from '../components/products/PublicationPanel';
+import { AdjustStockDialog } from '../components/products/AdjustStockDialog';
+import { DuplicateProductDialog } from '../components/products/DuplicateProductDialog';
+import { DraftRestoreBanner } from '../components/ui/DraftRestoreBanner';
+import { UnsavedChangesDialog } from '../components/ui/UnsavedChangesDialog';
+import { applyInventoryEntry, toProductUpdate } from '../services/inventory';
+import { productDraftKey, useFormDraft, useUnsavedChangesGuard } from '../services/formDrafts';
+import {
+  ProductFieldErrors,
+  emptyProductFormValues,
+  mapProductServerErrors,
+  toProductFormValues,
+} from '../services/productValidation';
+import { useCategories } from '../services/categories';
+import { getAltText } from '../services/imageAltText';
+import { ArrowLeftIcon, DocumentDuplicateIcon, PhotoIcon } from '@heroicons/react/24/outline';
 
 export const EditProductPage: React.FC = () => {
-  const { apiRequest } = useAuth();
+  const api = useAdminApi();
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingProduct, setIsLoadingProduct] = useState(true);
   const [error, setError] = useState('');
+  const [serverErrors, setServerErrors] = useState<ProductFieldErrors>();
   const [product, setProduct] = useState<Product | null>(null);
   const [showImageModal, setShowImageModal] = useState(false);
-  const [productImages, setProductImages] = useState<any[]>([]);
+  const [productImages, setProductImages] = useState<ProductImage[]>([]);
+  const [showAdjustDialog, setShowAdjustDialog] = useState(false);
+  const [isAdjusting, setIsAdjusting] = useState(false);
+  const [showDuplicateDialog, setShowDuplicateDialog] = useState(false);
 
-  const [formData, setFormData] = useState({
-    name: '',
-    description: '',
-    price: '',
-    category: 'rings' as Product['category'],
-    stock_quantity: '',
+  const [formState, setFormState] = useState<ProductFormState>({
+    values: emptyProductFormValues,
+    options: [],
+    variants: [],
   });
 
-  const categories: Product['category'][] = ['rings', 'earrings', 'bracelets', 'necklaces'];
+  // Compared against the state loaded from the server to tell if there are unsaved edits
+  const [savedState, setSavedState] = useState<string | null>(null);
+  const isDirty = savedState !== null && JSON.stringify(formState) !== savedState;
+  const { blocker, allowNavigation } = useUnsavedChangesGuard(isDirty);
+  const { draft, restoreDraft, discardDraft, clearDraft } = useFormDraft(productDraftKey(id), formState, isDirty);
+
+  // Archived categories stay selectable for products already placed in them
+  const { categories, error: categoriesError } = useCategories({ includeArchived: true });
+  const selectableCategories = categories.filter(category => !category.archived || category.slug === product?.category);
+  const categoryName = categories.find(category => category.slug === product?.category)?.name;
 
   useEffect(() => {
     if (id) {
@@ -33,21 +60,20 @@ export const EditProductPage: React.FC = () => {
   }, [id]);
 
   const fetchProduct = async () => {
+    if (!id) return;
+
     try {
       setIsLoadingProduct(true);
-      const data = await apiRequest(`/products/${id}`);
-      console.log('Fetched product for editing:', data);
-      
-      // Handle the actual data structure
-      const productData = data.product || data;
+      const { product: productData, images } = await api.products.get(id);
+      const loaded: ProductFormState = {
+        values: toProductFormValues(productData),
+        options: productData.options || [],
+        variants: productData.variants || [],
+      };
       setProduct(productData);
-      setFormData({
-        name: productData.name || '',
-        description: productData.description || '',
-        price: productData.price?.toString() || '',
-        category: productData.category || 'rings',
-        stock_quantity: productData.stock_quantity?.toString() || '',
-      });
+      setProductImages(images);
+      setFormState(loaded);
+      setSavedState(JSON.stringify(loaded));
     } catch (err: any) {
       console.error('Error fetching product:', err);
       setError(err.message || 'Failed to fetch product');
@@ -56,40 +82,68 @@ export const EditProductPage: React.FC = () => {
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({
-      ...prev,
-      [name]: value
+  const handleRestoreDraft = () => {
+    const restored = restoreDraft();
+    if (!restored) return;
+    setFormState(current => ({
+      values: { ...current.values, ...restored.values, stock_quantity: current.values.stock_quantity },
+      options: restored.options,
+      // Stock may have moved since the draft was saved, so the current levels are kept
+      variants: restored.variants.map(variant => ({
+        ...variant,
+        stock_quantity: current.variants.find(saved => saved.sku === variant.sku)?.stock_quantity ?? 0,
+      })),
     }));
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Adjustments are saved straight away; other unsaved edits stay in the form
+  const handleAdjustStock = async (input: StockAdjustmentInput) => {
+    if (!product) return;
+
+    try {
+      setIsAdjusting(true);
+      const entry = await api.inventory.adjust(product.id, input);
+      setProduct(applyInventoryEntry(product, entry));
+      if (entry.variant_sku) {
+        const applyEntry = (list: ProductVariant[]) => list.map(variant =>
+          variant.sku === entry.variant_sku ? { ...variant, stock_quantity: entry.stock_after } : variant
+        );
+        setFormState(current => ({ ...current, variants: applyEntry(current.variants) }));
+        // The adjustment is already saved, so it doesn't count as an unsaved edit
+        setSavedState(prev => {
+          if (!prev) return prev;
+          const saved: ProductFormState = JSON.parse(prev);
+          return JSON.stringify({ ...saved, variants: applyEntry(saved.variants) });
+        });
+      }
+      setShowAdjustDialog(false);
+    } catch (err: any) {
+      console.error('Error adjusting stock:', err);
+      setError(err.message || 'Failed to adjust stock');
+    } finally {
+      setIsAdjusting(false);
+    }
+  };
+
+  // Stock is dropped from the update; it only changes through the inventory ledger
+  const handleSubmit = async (productData: ProductInput) => {
     if (!id) return;
 
     setIsLoading(true);
     setError('');
 
     try {
-      const productData = {
-        name: formData.name,
-        description: formData.description,
-        price: parseFloat(formData.price),
-        category: formData.category,
-        stock_quantity: parseInt(formData.stock_quantity),
-      };
-
       console.log('Updating product:', productData);
-      await apiRequest(`/admin/products/${id}`, {
-        method: 'PUT',
-        body: JSON.stringify(productData),
-      });
+      await api.products.update(id, toProductUpdate(productData));
 
+      clearDraft();
+      allowNavigation();
       navigate('/products');
     } catch (err: any) {
       console.error('Error updating product:', err);
-      setError(err.message || 'Failed to update product');
+      const { errors, message } = mapProductServerErrors(err);
+      setServerErrors(errors);
+      setError(message);
     } finally {
       setIsLoading(false);
     }
@@ -128,106 +182,50 @@ export const EditProductPage: React.FC = () => {
           <ArrowLeftIcon className="h-5 w-5 mr-2" />
           Back to Products
         </button>
-        <h1 className="text-2xl font-bold text-admin-900">Edit Product</h1>
-        <p className="text-admin-600">Update product information</p>
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-admin-900">Edit Product</h1>
+            <p className="text-admin-600">Update product information</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setShowDuplicateDialog(true)}
+            className="flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <DocumentDuplicateIcon className="h-4 w-4 mr-2" />
+            Duplicate
+          </button>
+        </div>
       </div>
 
-      {error && (
-        <div className="mb-6 bg-red-50 border border-red-200 rounded-md p-4">
-          <p className="text-red-800">{error}</p>
-        </div>
+      {draft && (
+        <DraftRestoreBanner savedAt={draft.savedAt} onRestore={handleRestoreDraft} onDiscard={discardDraft} />
       )}
 
-      <form onSubmit={handleSubmit} className="space-y-6">
-        <div>
-          <label htmlFor="name" className="block text-sm font-medium text-admin-700 mb-2">
-            Product Name *
-          </label>
-          <input
-            type="text"
-            id="name"
-            name="name"
-            value={formData.name}
-            onChange={handleInputChange}
-            required
-            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
-            placeholder="Enter product name"
-          />
-        </div>
-
-        <div>
-          <label htmlFor="description" className="block text-sm font-medium text-admin-700 mb-2">
-            Description *
-          </label>
-          <textarea
-            id="description"
-            name="description"
-            value={formData.description}
-            onChange={handleInputChange}
-            required
-            rows={4}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
-            placeholder="Enter product description"
-          />
-        </div>
-
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div>
-            <label htmlFor="price" className="block text-sm font-medium text-admin-700 mb-2">
-              Price ($) *
-            </label>
-            <input
-              type="number"
-              id="price"
-              name="price"
-              value={formData.price}
-              onChange={handleInputChange}
-              required
-              min="0"
-              step="0.01"
-              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
-              placeholder="0.00"
-            />
-          </div>
-
-          <div>
-            <label htmlFor="stock_quantity" className="block text-sm font-medium text-admin-700 mb-2">
-              Stock Quantity *
-            </label>
-            <input
-              type="number"
-              id="stock_quantity"
-              name="stock_quantity"
-              value={formData.stock_quantity}
-              onChange={handleInputChange}
-              required
-              min="0"
-              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
-              placeholder="0"
-            />
-          </div>
+      {(error || categoriesError) && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error || categoriesError}</p>
         </div>
+      )}
 
-        <div>
-          <label htmlFor="category" className="block text-sm font-medium text-admin-700 mb-2">
-            Category *
-          </label>
-          <select
-            id="category"
-            name="category"
-            value={formData.category}
-            onChange={handleInputChange}
-            required
-            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
-          >
-            {categories.map(category => (
-              <option key={category} value={category}>
-                {category.charAt(0).toUpperCase() + category.slice(1)}
-              </option>
-            ))}
-          </select>
-        </div>
+      <div className="mb-6">
+        <PublicationPanel product={product} images={productImages} onUpdated={setProduct} />
+      </div>
 
+      <ProductForm
+        state={formState}
+        onChange={setFormState}
+        categories={selectableCategories}
+        product={product}
+        images={productImages}
+        onAdjustStock={() => setShowAdjustDialog(true)}
+        serverErrors={serverErrors}
+        isSubmitting={isLoading}
+        submitLabel="Update Product"
+        submittingLabel="Updating..."
+        onSubmit={handleSubmit}
+        onCancel={() => navigate('/products')}
+      >
         {/* Image Management Section */}
         <div>
           <div className="flex items-center justify-between mb-4">
@@ -251,7 +249,11 @@ export const EditProductPage: React.FC = () => {
                 <div key={image.id} className="relative group">
                   <img
                     src={image.image_url}
-                    alt={`Product image ${index + 1}`}
+                    alt={getAltText(image, {
+                      productName: product?.name || '',
+                      category: categoryName,
+                      position: index + 1,
+                    })}
                     className="w-full h-24 object-cover rounded-lg border border-gray-200"
                   />
                   {image.is_main && (
@@ -278,33 +280,7 @@ export const EditProductPage: React.FC = () => {
           )}
         </div>
 
-        <div className="flex justify-end space-x-3">
-          <button
-            type="button"
-            onClick={() => navigate('/products')}
-            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-iguana-500"
-          >
-            Cancel
-          </button>
-          <button
-            type="submit"
-            disabled={isLoading}
-            className="px-4 py-2 bg-iguana-600 text-white rounded-md hover:bg-iguana-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-iguana-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
-          >
-            {isLoading ? (
-              <>
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                Updating...
-              </>
-            ) : (
-              <>
-                <CheckIcon className="h-4 w-4 mr-2" />
-                Update Product
-              </>
-            )}
-          </button>
-        </div>
-      </form>
+      </ProductForm>
 
       {/* Image Management Modal */}
       {id && (
@@ -313,10 +289,27 @@ export const EditProductPage: React.FC = () => {
           onClose={() => setShowImageModal(false)}
           productId={id}
           productName={product?.name || 'Product'}
+          productCategory={categoryName}
           initialImages={productImages}
           onImagesChange={setProductImages}
         />
       )}
+
+      <AdjustStockDialog
+        isOpen={showAdjustDialog}
+        product={product}
+        isSubmitting={isAdjusting}
+        onClose={() => setShowAdjustDialog(false)}
+        onSubmit={handleAdjustStock}
+      />
+
+      <DuplicateProductDialog
+        isOpen={showDuplicateDialog}
+        product={product}
+        onClose={() => setShowDuplicateDialog(false)}
+      />
+
+      <UnsavedChangesDialog blocker={blocker} />
     </div>
   );
 };
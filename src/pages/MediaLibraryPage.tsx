@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useAdminApi } from '../services/api';
+import { MediaFilter, MediaImage, MediaQuery, Paginated, Product } from '../types';
+import { Pagination } from '../components/ui/Pagination';
+import { ConfirmationDialog } from '../components/ui/ConfirmationDialog';
+import { ImageManagementModal } from '../components/images/ImageManagementModal';
+import { ReassignImageDialog } from '../components/images/ReassignImageDialog';
+import {
+  ArrowsRightLeftIcon,
+  MagnifyingGlassIcon,
+  PhotoIcon,
+  Squares2X2Icon,
+  StarIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+
+const DEFAULT_PAGE_SIZE = 48;
+
+const filterTabs: { value?: MediaFilter; label: string }[] = [
+  { label: 'All Images' },
+  { value: 'orphaned', label: 'Orphaned' },
+  { value: 'no_main_image', label: 'Products Without Main Image' },
+];
+
+// The library view lives in the URL like the products table, so filtered views can be shared
+const parseMediaQuery = (params: URLSearchParams): MediaQuery => {
+  const filter = params.get('filter');
+  const page = Number(params.get('page'));
+  const pageSize = Number(params.get('page_size'));
+
+  return {
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+    pageSize: Number.isInteger(pageSize) && pageSize > 0 ? pageSize : DEFAULT_PAGE_SIZE,
+    filter: filter === 'orphaned' || filter === 'no_main_image' ? filter : undefined,
+    search: params.get('search') || undefined,
+  };
+};
+
+const toSearchParams = (query: MediaQuery): Record<string, string> => {
+  const params: Record<string, string> = {};
+  if (query.page !== 1) params.page = String(query.page);
+  if (query.pageSize !== DEFAULT_PAGE_SIZE) params.page_size = String(query.pageSize);
+  if (query.filter) params.filter = query.filter;
+  if (query.search) params.search = query.search;
+  return params;
+};
+
+const formatFileSize = (bytes?: number) => {
+  if (!bytes) return 'Unknown size';
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)}KB`;
+  return (bytes / 1024 / 1024).toFixed(2) + 'MB';
+};
+
+export const MediaLibraryPage: React.FC = () => {
+  const api = useAdminApi();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [result, setResult] = useState<Paginated<MediaImage> | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [reassigning, setReassigning] = useState<MediaImage | null>(null);
+  const [deleting, setDeleting] = useState<MediaImage | null>(null);
+  const [managing, setManaging] = useState<MediaImage | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const queryString = searchParams.toString();
+  const query = parseMediaQuery(searchParams);
+  const [searchInput, setSearchInput] = useState(query.search || '');
+
+  const fetchImages = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      setResult(await api.media.search(parseMediaQuery(new URLSearchParams(queryString))));
+    } catch (err: any) {
+      console.error('Error fetching images:', err);
+      setError(err.message || 'Failed to fetch images');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api, queryString]);
+
+  useEffect(() => {
+    fetchImages();
+  }, [fetchImages]);
+
+  const updateQuery = (changes: Partial<MediaQuery>) => {
+    const resetPage = !('page' in changes);
+    setSearchParams(toSearchParams({ ...query, ...(resetPage && { page: 1 }), ...changes }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateQuery({ search: searchInput.trim() || undefined });
+  };
+
+  const handleReassign = async (product: Product) => {
+    if (!reassigning) return;
+
+    try {
+      setIsUpdating(true);
+      await api.media.reassign(reassigning.id, product.id);
+      setReassigning(null);
+      await fetchImages();
+    } catch (err: any) {
+      console.error('Error reassigning image:', err);
+      setError(err.message || 'Failed to reassign image');
+      setReassigning(null);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await api.media.remove(deleting.id);
+      await fetchImages();
+    } catch (err: any) {
+      console.error('Error deleting image:', err);
+      setError(err.message || 'Failed to delete image');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const images = result?.items || [];
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-admin-900">Media Library</h1>
+        <p className="mt-1 text-sm text-admin-600">Every product image across the catalogue</p>
+      </div>
+
+      <div className="bg-white shadow rounded-lg mb-6">
+        <div className="border-b border-gray-200 px-4 flex space-x-6">
+          {filterTabs.map(tab => (
+            <button
+              key={tab.label}
+              onClick={() => updateQuery({ filter: tab.value })}
+              className={`py-3 text-sm font-medium border-b-2 ${
+                query.filter === tab.value
+                  ? 'border-iguana-500 text-iguana-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        <form onSubmit={handleSearch} className="p-4 flex space-x-2">
+          <div className="relative flex-1">
+            <MagnifyingGlassIcon className="h-5 w-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search by product name or file name"
+              className="pl-10 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-iguana-600 text-white rounded-md hover:bg-iguana-700"
+          >
+            Search
+          </button>
+        </form>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-iguana-600"></div>
+        </div>
+      ) : images.length === 0 ? (
+        <div className="text-center py-12 bg-white shadow rounded-lg">
+          <PhotoIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No images found</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {query.filter || query.search ? 'Try a different filter or search.' : 'Images uploaded to products appear here.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <ul className="grid grid-cols-2 gap-4 p-4 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6">
+            {images.map(image => (
+              <li key={image.id} className="border border-gray-200 rounded-lg overflow-hidden flex flex-col">
+                <a href={image.image_url} target="_blank" rel="noopener noreferrer" className="relative block">
+                  <img src={image.image_url} alt={image.alt_text || image.product_name || ''} className="h-32 w-full object-cover" loading="lazy" />
+                  {image.is_main && (
+                    <span className="absolute top-1 left-1 inline-flex items-center bg-yellow-100 text-yellow-800 text-xs px-2 py-0.5 rounded-full">
+                      <StarIcon className="h-3 w-3 mr-1" />
+                      Main
+                    </span>
+                  )}
+                </a>
+                <div className="p-2 flex-1 text-xs space-y-1">
+                  {image.product_id ? (
+                    <Link
+                      to={`/products/${image.product_id}`}
+                      className="block font-medium text-gray-900 hover:text-iguana-600 truncate"
+                    >
+                      {image.product_name || 'Unnamed product'}
+                    </Link>
+                  ) : (
+                    <span className="inline-flex px-2 py-0.5 rounded-full bg-red-100 text-red-800 font-medium">
+                      Orphaned
+                    </span>
+                  )}
+                  {image.product_id && image.product_has_main_image === false && (
+                    <span className="inline-flex px-2 py-0.5 rounded-full bg-orange-100 text-orange-800 font-medium">
+                      No main image
+                    </span>
+                  )}
+                  <p className="text-gray-500">{new Date(image.created_at).toLocaleDateString()}</p>
+                  <p className="text-gray-500">{formatFileSize(image.file_size)}</p>
+                </div>
+                <div className="flex border-t border-gray-200 divide-x divide-gray-200">
+                  <button
+                    onClick={() => setManaging(image)}
+                    disabled={!image.product_id}
+                    title="Manage product images"
+                    className="flex-1 flex justify-center py-2 text-iguana-600 hover:bg-gray-50 disabled:text-gray-300 disabled:hover:bg-white"
+                  >
+                    <Squares2X2Icon className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setReassigning(image)}
+                    title="Move to another product"
+                    className="flex-1 flex justify-center py-2 text-iguana-600 hover:bg-gray-50"
+                  >
+                    <ArrowsRightLeftIcon className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setDeleting(image)}
+                    title="Delete image"
+                    className="flex-1 flex justify-center py-2 text-red-600 hover:bg-red-50"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          {result && (
+            <Pagination
+              page={result.page}
+              pageSize={result.page_size}
+              total={result.total}
+              onPageChange={(page) => updateQuery({ page })}
+              pageSizeOptions={[24, 48, 96]}
+              onPageSizeChange={(pageSize) => updateQuery({ pageSize })}
+            />
+          )}
+        </div>
+      )}
+
+      <ReassignImageDialog
+        isOpen={reassigning !== null}
+        image={reassigning}
+        isSubmitting={isUpdating}
+        onClose={() => setReassigning(null)}
+        onSubmit={handleReassign}
+      />
+
+      <ConfirmationDialog
+        isOpen={deleting !== null}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDelete}
+        title="Delete Image"
+        message={
+          deleting?.is_main
+            ? `This is the main image of ${deleting.product_name}. Deleting it leaves the product without a main image.`
+            : 'The image file will be deleted permanently.'
+        }
+        confirmText="Delete"
+        confirmButtonClass="bg-red-600 hover:bg-red-700 focus:ring-red-500"
+      />
+
+      {managing?.product_id && (
+        <ImageManagementModal
+          isOpen
+          onClose={() => {
+            setManaging(null);
+            fetchImages();
+          }}
+          productId={managing.product_id}
+          productName={managing.product_name || 'Product'}
+        />
+      )}
+    </div>
+  );
+};
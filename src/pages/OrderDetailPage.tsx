@@ -1,27 +1,52 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
-import { OrderSummary, OrderStatus } from '../types/order';
+import { useAdminApi } from '../services/api';
+import { OrderStatusBadge } from '../components/orders/OrderStatusBadge';
+import { OrderStatusActions } from '../components/orders/OrderStatusActions';
+import { ShipOrderDialog } from '../components/orders/ShipOrderDialog';
+import { ShipmentTimeline } from '../components/orders/ShipmentTimeline';
+import { RefundDialog } from '../components/orders/RefundDialog';
+import { OrderTimeline } from '../components/orders/OrderTimeline';
+import { useOrderDocuments } from '../components/orders/OrderDocuments';
+import { getFulfillmentStage, isFullyShipped } from '../services/shipments';
+import { getRefundedTotal } from '../services/refunds';
+import { OrderDocumentKind } from '../services/orderDocuments';
+import {
+  OrderEvent,
+  OrderNoteInput,
+  OrderSummary,
+  OrderStatusUpdate,
+  Refund,
+  RefundInput,
+  Shipment,
+  ShipmentInput,
+} from '../types/order';
 import {
   ArrowLeftIcon,
-  CheckIcon,
-  XMarkIcon,
-  TruckIcon,
-  ClockIcon,
   UserIcon,
   MapPinIcon,
   EnvelopeIcon,
   PhoneIcon,
+  PrinterIcon,
+  DocumentArrowDownIcon,
 } from '@heroicons/react/24/outline';
 
 export const OrderDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { apiRequest } = useAuth();
+  const api = useAdminApi();
   const [order, setOrder] = useState<OrderSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
+  // Failed actions are reported above the order instead of replacing it, so open dialogs keep their input
+  const [actionError, setActionError] = useState('');
   const [isUpdating, setIsUpdating] = useState(false);
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [showShipDialog, setShowShipDialog] = useState(false);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [showRefundDialog, setShowRefundDialog] = useState(false);
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const documents = useOrderDocuments();
 
   useEffect(() => {
     if (id) {
@@ -29,12 +54,35 @@ export const OrderDetailPage: React.FC = () => {
     }
   }, [id]);
 
+  // Only the order itself is required; if shipments, refunds or events fail to
+  // load, the order is still shown with that panel empty.
   const fetchOrder = async () => {
+    if (!id) return;
+
     try {
       setIsLoading(true);
-      const data = await apiRequest(`/orders/${id}`);
-      console.log('Fetched order data:', data);
-      setOrder(data);
+      const orderData = await api.orders.get(id);
+      const [shipmentResult, refundResult, eventResult] = await Promise.allSettled([
+        api.orders.shipments.list(id),
+        api.orders.refunds.list(id),
+        api.orders.events.list(id),
+      ]);
+      setOrder(orderData);
+      if (shipmentResult.status === 'fulfilled') {
+        setShipments(shipmentResult.value);
+      } else {
+        console.error('Error fetching shipments:', shipmentResult.reason);
+      }
+      if (refundResult.status === 'fulfilled') {
+        setRefunds(refundResult.value);
+      } else {
+        console.error('Error fetching refunds:', refundResult.reason);
+      }
+      if (eventResult.status === 'fulfilled') {
+        setEvents(eventResult.value);
+      } else {
+        console.error('Error fetching order events:', eventResult.reason);
+      }
     } catch (err: any) {
       console.error('Error fetching order:', err);
       setError(err.message || 'Failed to fetch order');
@@ -43,51 +91,130 @@ export const OrderDetailPage: React.FC = () => {
     }
   };
 
-  const handleStatusUpdate = async (newStatus: OrderStatus) => {
+  // Status changes, shipments and refunds add events on the backend; a failed
+  // reload only leaves the timeline stale, so it is not surfaced as an error.
+  const refreshEvents = async (orderId: string) => {
+    try {
+      setEvents(await api.orders.events.list(orderId));
+    } catch (err) {
+      console.error('Error fetching order events:', err);
+    }
+  };
+
+  // The timeline shows the failure next to the note and keeps the draft
+  const handleAddNote = async (input: OrderNoteInput) => {
+    if (!order) return;
+
+    try {
+      const note = await api.orders.events.addNote(order.id, input);
+      setEvents([...events, note]);
+    } catch (err) {
+      console.error('Error adding note:', err);
+      throw err;
+    }
+  };
+
+  const handleStatusUpdate = async (update: OrderStatusUpdate) => {
     if (!order) return;
-    
+
     try {
       setIsUpdating(true);
-      await apiRequest(`/admin/orders/${order.id}/status?status=${newStatus}`, {
-        method: 'PUT',
-      });
-      
-      setOrder({ ...order, status: newStatus });
+      setActionError('');
+      await api.orders.updateStatus(order.id, update);
+
+      setOrder({ ...order, status: update.status });
+      refreshEvents(order.id);
     } catch (err: any) {
       console.error('Error updating order status:', err);
-      setError(err.message || 'Failed to update order status');
+      setActionError(err.message || 'Failed to update order status');
+      throw err;
     } finally {
       setIsUpdating(false);
     }
   };
 
-  const getStatusColor = (status: OrderStatus) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'paid':
-        return 'bg-blue-100 text-blue-800';
-      case 'cancelled':
-        return 'bg-red-100 text-red-800';
-      case 'delivered':
-        return 'bg-green-100 text-green-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
+  // Reloads the order after a shipment or refund was saved. A failed reload must
+  // not look like a failed save, or trying again would record it twice.
+  const reloadOrder = async (orderId: string, saved: string) => {
+    try {
+      setOrder(await api.orders.get(orderId));
+    } catch (err: any) {
+      console.error('Error reloading order:', err);
+      setActionError(`${saved}, but the order could not be reloaded. Refresh the page to see its current status.`);
     }
   };
 
-  const getStatusIcon = (status: OrderStatus) => {
-    switch (status) {
-      case 'pending':
-        return <ClockIcon className="h-5 w-5" />;
-      case 'paid':
-        return <CheckIcon className="h-5 w-5" />;
-      case 'cancelled':
-        return <XMarkIcon className="h-5 w-5" />;
-      case 'delivered':
-        return <TruckIcon className="h-5 w-5" />;
-      default:
-        return null;
+  // The backend moves the order to shipped/delivered once every item is covered,
+  // so reload the order after each shipment change to pick up its new status.
+  const handleCreateShipment = async (input: ShipmentInput) => {
+    if (!order) return;
+
+    try {
+      setIsUpdating(true);
+      setActionError('');
+      const shipment = await api.orders.shipments.create(order.id, input);
+      setShipments([...shipments, shipment]);
+      setShowShipDialog(false);
+    } catch (err: any) {
+      console.error('Error creating shipment:', err);
+      setActionError(err.message || 'Failed to record shipment');
+      return;
+    } finally {
+      setIsUpdating(false);
+    }
+    await reloadOrder(order.id, 'Shipment recorded');
+    refreshEvents(order.id);
+  };
+
+  const handleMarkShipmentDelivered = async (shipment: Shipment) => {
+    if (!order) return;
+
+    try {
+      setIsUpdating(true);
+      setActionError('');
+      const updated = await api.orders.shipments.markDelivered(order.id, shipment.id);
+      setShipments(shipments.map(s => (s.id === updated.id ? updated : s)));
+    } catch (err: any) {
+      console.error('Error marking shipment delivered:', err);
+      setActionError(err.message || 'Failed to mark shipment delivered');
+      return;
+    } finally {
+      setIsUpdating(false);
+    }
+    await reloadOrder(order.id, 'Shipment marked delivered');
+    refreshEvents(order.id);
+  };
+
+  // Refunds also change the order status (refunded or partially refunded)
+  const handleCreateRefund = async (input: RefundInput) => {
+    if (!order) return;
+
+    try {
+      setIsUpdating(true);
+      setActionError('');
+      const refund = await api.orders.refunds.create(order.id, input);
+      setRefunds([...refunds, refund]);
+      setShowRefundDialog(false);
+    } catch (err: any) {
+      console.error('Error creating refund:', err);
+      setActionError(err.message || 'Failed to issue refund');
+      return;
+    } finally {
+      setIsUpdating(false);
+    }
+    await reloadOrder(order.id, 'Refund recorded');
+    refreshEvents(order.id);
+  };
+
+  const handleDownloadPdf = async (kind: OrderDocumentKind) => {
+    if (!order) return;
+
+    try {
+      setActionError('');
+      await documents.download([order], kind);
+    } catch (err: any) {
+      console.error('Error generating PDF:', err);
+      setActionError(err.message || 'Failed to generate PDF');
     }
   };
 
@@ -135,6 +262,12 @@ export const OrderDetailPage: React.FC = () => {
     );
   }
 
+  const refundedTotal = getRefundedTotal(refunds);
+  const lastUpdated = events.reduce(
+    (latest, event) => (new Date(event.created_at) > new Date(latest) ? event.created_at : latest),
+    order.created_at
+  );
+
   return (
     <div className="max-w-4xl mx-auto">
       <div className="mb-6">
@@ -155,46 +288,55 @@ export const OrderDetailPage: React.FC = () => {
             </p>
           </div>
           <div className="flex items-center space-x-3">
-            <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(order.status)}`}>
-              {getStatusIcon(order.status)}
-              <span className="ml-2 capitalize">{order.status}</span>
-            </span>
-            
-            {/* Status Update Buttons */}
-            {order.status === 'pending' && (
-              <button
-                onClick={() => handleStatusUpdate('paid')}
-                disabled={isUpdating}
-                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 flex items-center"
-              >
-                <CheckIcon className="h-4 w-4 mr-2" />
-                Mark as Paid
-              </button>
-            )}
+            <OrderStatusBadge status={order.status} size="md" />
             
-            {order.status === 'paid' && (
-              <button
-                onClick={() => handleStatusUpdate('delivered')}
-                disabled={isUpdating}
-                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center"
-              >
-                <TruckIcon className="h-4 w-4 mr-2" />
-                Mark as Delivered
-              </button>
-            )}
-            
-            {(order.status === 'pending' || order.status === 'paid') && (
-              <button
-                onClick={() => handleStatusUpdate('cancelled')}
-                disabled={isUpdating}
-                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 flex items-center"
-              >
-                <XMarkIcon className="h-4 w-4 mr-2" />
-                Cancel Order
-              </button>
-            )}
+            <OrderStatusActions
+              status={order.status}
+              stage={getFulfillmentStage(order, shipments)}
+              disabled={isUpdating}
+              onTransition={handleStatusUpdate}
+              customActions={{
+                shipped: () => setShowShipDialog(true),
+                refunded: () => setShowRefundDialog(true),
+              }}
+            />
           </div>
         </div>
+        <div className="flex items-center space-x-2 mt-4">
+          <button
+            onClick={() => documents.print([order], 'packing-slip')}
+            className="flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <PrinterIcon className="h-4 w-4 mr-2" />
+            Packing Slip
+          </button>
+          <button
+            onClick={() => documents.print([order], 'invoice')}
+            className="flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <PrinterIcon className="h-4 w-4 mr-2" />
+            Invoice
+          </button>
+          <button
+            onClick={() => handleDownloadPdf('packing-slip')}
+            className="flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <DocumentArrowDownIcon className="h-4 w-4 mr-2" />
+            Packing Slip PDF
+          </button>
+          <button
+            onClick={() => handleDownloadPdf('invoice')}
+            className="flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <DocumentArrowDownIcon className="h-4 w-4 mr-2" />
+            Invoice PDF
+          </button>
+        </div>
+        {actionError && (
+          <div className="mt-4 rounded-md bg-red-50 p-4">
+            <div className="text-sm text-red-700">{actionError}</div>
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -243,6 +385,72 @@ export const OrderDetailPage: React.FC = () => {
               </div>
             </div>
           </div>
+
+          {/* Shipments */}
+          <div className="bg-white shadow rounded-lg mt-6">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="text-lg font-medium text-gray-900">Shipments</h3>
+              {shipments.length > 0 && !isFullyShipped(order, shipments) && (
+                <span className="text-xs font-medium text-orange-700 bg-orange-100 rounded-full px-2.5 py-0.5">
+                  Partially shipped
+                </span>
+              )}
+            </div>
+            <div className="px-6 py-4">
+              <ShipmentTimeline
+                order={order}
+                shipments={shipments}
+                onMarkDelivered={handleMarkShipmentDelivered}
+                disabled={isUpdating}
+              />
+            </div>
+          </div>
+
+          {/* Refunds */}
+          {refunds.length > 0 && (
+            <div className="bg-white shadow rounded-lg mt-6">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900">Refunds</h3>
+              </div>
+              <ul className="divide-y divide-gray-200">
+                {refunds.map(refund => (
+                  <li key={refund.id} className="px-6 py-4">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{refund.reason}</p>
+                        <p className="text-xs text-gray-500">{formatDate(refund.created_at)}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-sm font-medium text-red-600">-{formatCurrency(refund.amount)}</p>
+                        {refund.restock && (
+                          <span className="text-xs text-gray-500">Restocked</span>
+                        )}
+                      </div>
+                    </div>
+                    {refund.items.length > 0 && (
+                      <ul className="mt-2 text-xs text-gray-600 space-y-0.5">
+                        {refund.items.map(item => (
+                          <li key={item.order_item_id}>
+                            {item.quantity}x {order.items.find(i => i.id === item.order_item_id)?.product_name || 'Unknown item'}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Activity */}
+          <div className="bg-white shadow rounded-lg mt-6">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Activity</h3>
+            </div>
+            <div className="px-6 py-4">
+              <OrderTimeline events={events} onAddNote={handleAddNote} disabled={isUpdating} />
+            </div>
+          </div>
         </div>
 
         {/* Customer & Shipping Info */}
@@ -303,10 +511,7 @@ export const OrderDetailPage: React.FC = () => {
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Status</span>
-                <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
-                  {getStatusIcon(order.status)}
-                  <span className="ml-1 capitalize">{order.status}</span>
-                </span>
+                <OrderStatusBadge status={order.status} />
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Placed</span>
@@ -314,18 +519,50 @@ export const OrderDetailPage: React.FC = () => {
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Updated</span>
-                <span className="text-gray-900">{formatDate(order.created_at)}</span>
+                <span className="text-gray-900">{formatDate(lastUpdated)}</span>
               </div>
               <div className="border-t border-gray-200 pt-2">
                 <div className="flex justify-between text-lg font-medium">
                   <span>Total</span>
                   <span>{formatCurrency(order.total_amount)}</span>
                 </div>
+                {refundedTotal > 0 && (
+                  <>
+                    <div className="flex justify-between text-sm text-red-600">
+                      <span>Refunded</span>
+                      <span>-{formatCurrency(refundedTotal)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm font-medium text-gray-900">
+                      <span>Net</span>
+                      <span>{formatCurrency(order.total_amount - refundedTotal)}</span>
+                    </div>
+                  </>
+                )}
               </div>
             </div>
           </div>
         </div>
       </div>
+
+      <ShipOrderDialog
+        isOpen={showShipDialog}
+        order={order}
+        shipments={shipments}
+        isSubmitting={isUpdating}
+        onClose={() => setShowShipDialog(false)}
+        onSubmit={handleCreateShipment}
+      />
+
+      <RefundDialog
+        isOpen={showRefundDialog}
+        order={order}
+        refunds={refunds}
+        isSubmitting={isUpdating}
+        onClose={() => setShowRefundDialog(false)}
+        onSubmit={handleCreateRefund}
+      />
+
+      {documents.printView}
     </div>
   );
 };
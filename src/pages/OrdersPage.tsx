@@ -1,97 +1,346 @@
-import React, { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
-import { OrderSummary, OrderStatus, OrderFilters } from '../types/order';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useAdminApi } from '../services/api';
+import {
+  ORDER_STATUSES,
+  ORDER_STATUS_LABELS,
+  OrderTransition,
+  buildStatusUpdate,
+  getBulkTransitions,
+} from '../services/orderLifecycle';
+import { BulkProgress, runBulkAction } from '../services/bulkActions';
+import { ExportRequest, ExportScope, buildExportTable, downloadExport, fetchAllPages, selectColumns } from '../services/export';
+import { DEFAULT_ORDER_COLUMN_IDS, ORDER_EXPORT_COLUMNS, toOrderExportRows } from '../services/exportColumns';
+import { Pagination } from '../components/ui/Pagination';
+import { BulkActionResults, BulkResultRow } from '../components/ui/BulkActionResults';
+import { ExportDialog } from '../components/ui/ExportDialog';
+import { OrderStatusBadge } from '../components/orders/OrderStatusBadge';
+import { OrderStatusActions } from '../components/orders/OrderStatusActions';
+import { RefundDialog } from '../components/orders/RefundDialog';
+import { ShipOrderDialog } from '../components/orders/ShipOrderDialog';
+import { useOrderDocuments } from '../components/orders/OrderDocuments';
+import { OrderDocumentKind } from '../services/orderDocuments';
+import { Paginated } from '../types';
+import { OrderSummary, OrderStatus, OrderStatusUpdate, OrderQuery, Refund, RefundInput, Shipment, ShipmentInput } from '../types/order';
+import { User } from '../types/user';
 import {
   EyeIcon,
-  CheckIcon,
   XMarkIcon,
-  TruckIcon,
   ClockIcon,
   FunnelIcon,
   MagnifyingGlassIcon,
+  UserIcon,
+  CubeIcon,
+  PrinterIcon,
+  DocumentArrowDownIcon,
+  ArrowDownTrayIcon,
 } from '@heroicons/react/24/outline';
 
+const DEFAULT_PAGE_SIZE = 25;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parsePositiveInteger = (value: string | null, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const parseDate = (value: string | null): string | undefined =>
+  value && DATE_PATTERN.test(value) ? value : undefined;
+
+// Filters live in the URL so links such as /orders?user=<id> open pre-filtered.
+const parseOrderQuery = (params: URLSearchParams): OrderQuery => {
+  const status = params.get('status') as OrderStatus | null;
+  return {
+    page: parsePositiveInteger(params.get('page'), 1),
+    pageSize: parsePositiveInteger(params.get('page_size'), DEFAULT_PAGE_SIZE),
+    status: status && ORDER_STATUSES.includes(status) ? status : undefined,
+    search: params.get('search') || undefined,
+    dateFrom: parseDate(params.get('from')),
+    dateTo: parseDate(params.get('to')),
+    userId: params.get('user') || undefined,
+    productId: params.get('product') || undefined,
+  };
+};
+
+const toSearchParams = (query: OrderQuery): Record<string, string> => {
+  const params: Record<string, string> = {};
+  if (query.page !== 1) params.page = String(query.page);
+  if (query.pageSize !== DEFAULT_PAGE_SIZE) params.page_size = String(query.pageSize);
+  if (query.status) params.status = query.status;
+  if (query.search) params.search = query.search;
+  if (query.dateFrom) params.from = query.dateFrom;
+  if (query.dateTo) params.to = query.dateTo;
+  if (query.userId) params.user = query.userId;
+  if (query.productId) params.product = query.productId;
+  return params;
+};
+
 export const OrdersPage: React.FC = () => {
-  const { apiRequest } = useAuth();
-  const [orders, setOrders] = useState<OrderSummary[]>([]);
+  const api = useAdminApi();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [result, setResult] = useState<Paginated<OrderSummary> | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
-  const [filters, setFilters] = useState<OrderFilters>({});
-  const [showFilters, setShowFilters] = useState(false);
+  const [customer, setCustomer] = useState<User | null>(null);
+  const [productName, setProductName] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const documents = useOrderDocuments();
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+  const [bulkResults, setBulkResults] = useState<BulkResultRow[] | undefined>();
+  const [exportScope, setExportScope] = useState<ExportScope | null>(null);
+  const [shipTarget, setShipTarget] = useState<{ order: OrderSummary; shipments: Shipment[] } | null>(null);
+  const [isShipping, setIsShipping] = useState(false);
+  const [refundTarget, setRefundTarget] = useState<{ order: OrderSummary; refunds: Refund[] } | null>(null);
+  const [isRefunding, setIsRefunding] = useState(false);
 
-  useEffect(() => {
-    fetchOrders();
-  }, [filters]);
+  const queryString = searchParams.toString();
+  const filters = parseOrderQuery(searchParams);
+  const [searchInput, setSearchInput] = useState(filters.search || '');
+  const [showFilters, setShowFilters] = useState(Boolean(filters.status || filters.dateFrom || filters.dateTo));
 
-  const fetchOrders = async () => {
+  const fetchOrders = useCallback(async () => {
     try {
       setIsLoading(true);
-      let url = '/admin/orders';
-      
-      // Add status filter if specified
-      if (filters.status) {
-        url += `?status=${filters.status}`;
-      }
-      
-      const data = await apiRequest(url);
-      console.log('Fetched orders data:', data);
-      
-      setOrders(Array.isArray(data) ? data : []);
+      setError('');
+      setResult(await api.orders.search(parseOrderQuery(new URLSearchParams(queryString))));
     } catch (err: any) {
       console.error('Error fetching orders:', err);
       setError(err.message || 'Failed to fetch orders');
     } finally {
       setIsLoading(false);
     }
+  }, [api, queryString]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  // Selection only covers the rows on screen
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [queryString]);
+
+  // Back/forward and links to a filtered list change the search without typing
+  const searchParam = searchParams.get('search') || '';
+  useEffect(() => {
+    setSearchInput(searchParam);
+  }, [searchParam]);
+
+  // Resolve the customer filter to a name for the filter chip
+  useEffect(() => {
+    if (!filters.userId) {
+      setCustomer(null);
+      return;
+    }
+    api.users.get(filters.userId)
+      .then(setCustomer)
+      .catch(err => {
+        console.error('Error fetching customer:', err);
+        setCustomer(null);
+      });
+  }, [api, filters.userId]);
+
+  useEffect(() => {
+    if (!filters.productId) {
+      setProductName(null);
+      return;
+    }
+    api.products.get(filters.productId)
+      .then(({ product }) => setProductName(product.name))
+      .catch(err => {
+        console.error('Error fetching product:', err);
+        setProductName(null);
+      });
+  }, [api, filters.productId]);
+
+  const updateFilters = (changes: Partial<OrderQuery>) => {
+    const resetPage = !('page' in changes);
+    setSearchParams(toSearchParams({ ...filters, ...(resetPage && { page: 1 }), ...changes }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ search: searchInput.trim() || undefined });
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setSearchParams(toSearchParams({ page: 1, pageSize: filters.pageSize }));
+  };
+
+  const orders = result?.items || [];
+  const hasFilters = Boolean(filters.status || filters.search || filters.dateFrom || filters.dateTo || filters.userId || filters.productId);
+  const selectedOrders = orders.filter(order => selectedIds.has(order.id));
+  const allSelected = orders.length > 0 && selectedOrders.length === orders.length;
+
+  const toggleSelected = (orderId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(orderId)) {
+      next.delete(orderId);
+    } else {
+      next.add(orderId);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleAllSelected = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(orders.map(order => order.id)));
   };
 
-  const handleStatusUpdate = async (orderId: string, newStatus: OrderStatus) => {
+  const bulkTransitions = getBulkTransitions(
+    selectedOrders.map(order => order.status).filter((status, index, all) => all.indexOf(status) === index)
+  );
+
+  const handleBulkTransitionSelect = (to: string) => {
+    const transition = bulkTransitions.find(t => t.to === to);
+    if (transition) {
+      runBulkTransition(transition);
+    }
+  };
+
+  // Every order is validated against its own status, so a mixed selection
+  // updates the orders that can move and reports the rest as failures.
+  const runBulkTransition = async (transition: OrderTransition) => {
+    const targets = selectedOrders;
+    setBulkResults(undefined);
+
+    const results = await runBulkAction(
+      targets,
+      async order => {
+        const update = buildStatusUpdate(order.status, transition.to);
+        await api.orders.updateStatus(order.id, update);
+      },
+      setBulkProgress
+    );
+
+    const updatedIds = new Set(results.filter(r => !r.error).map(r => r.item.id));
+    setResult(prev => prev && {
+      ...prev,
+      items: prev.items.map(order =>
+        updatedIds.has(order.id) ? { ...order, status: transition.to } : order
+      ),
+    });
+    // Keep the failures selected so they can be fixed and retried
+    setSelectedIds(new Set(results.filter(r => r.error).map(r => r.item.id)));
+    setBulkResults(results.map(({ item, error }) => ({ key: item.id, label: `Order #${item.id.slice(-8)}`, error })));
+  };
+
+  const closeBulkResults = () => {
+    setBulkProgress(null);
+    setBulkResults(undefined);
+  };
+
+  const handleExport = async ({ scope, format, columnIds }: ExportRequest) => {
+    const exported = scope === 'selected'
+      ? selectedOrders
+      : await fetchAllPages((page, pageSize) =>
+          api.orders.search(scope === 'all' ? { page, pageSize } : { ...filters, page, pageSize })
+        );
+    const columns = selectColumns(ORDER_EXPORT_COLUMNS, columnIds);
+    await downloadExport(buildExportTable(toOrderExportRows(exported, columnIds), columns), 'orders', format);
+  };
+
+  const handleDownloadPdf = async (kind: OrderDocumentKind) => {
     try {
-      await apiRequest(`/admin/orders/${orderId}/status?status=${newStatus}`, {
-        method: 'PUT',
-      });
-      
+      await documents.download(selectedOrders, kind);
+    } catch (err: any) {
+      console.error('Error generating PDF:', err);
+      setError(err.message || 'Failed to generate PDF');
+    }
+  };
+
+  const handleStatusUpdate = async (orderId: string, update: OrderStatusUpdate) => {
+    try {
+      await api.orders.updateStatus(orderId, update);
+
       // Update local state
-      setOrders(orders.map(order => 
-        order.id === orderId 
-          ? { ...order, status: newStatus, updated_at: new Date().toISOString() }
-          : order
-      ));
+      setResult(prev => prev && {
+        ...prev,
+        items: prev.items.map(order =>
+          order.id === orderId ? { ...order, status: update.status } : order
+        ),
+      });
     } catch (err: any) {
       console.error('Error updating order status:', err);
       setError(err.message || 'Failed to update order status');
+      throw err;
+    }
+  };
+
+  const replaceOrder = (updated: OrderSummary) => {
+    setResult(prev => prev && {
+      ...prev,
+      items: prev.items.map(order => (order.id === updated.id ? updated : order)),
+    });
+  };
+
+  // Reloads a row after a shipment or refund was saved. A failed reload must
+  // not look like a failed save, or trying again would record it twice.
+  const reloadOrder = async (orderId: string, saved: string) => {
+    try {
+      replaceOrder(await api.orders.get(orderId));
+    } catch (err: any) {
+      console.error('Error reloading order:', err);
+      setError(`${saved}, but the order could not be reloaded. Refresh the page to see its current status.`);
+    }
+  };
+
+  // The ship dialog needs earlier shipments to know which items are still outstanding
+  const openShipDialog = async (order: OrderSummary) => {
+    try {
+      setShipTarget({ order, shipments: await api.orders.shipments.list(order.id) });
+    } catch (err: any) {
+      console.error('Error fetching shipments:', err);
+      setError(err.message || 'Failed to fetch shipments');
+    }
+  };
+
+  // The backend moves the order to shipped once every item is covered, so reload the order
+  const handleCreateShipment = async (input: ShipmentInput) => {
+    if (!shipTarget) return;
+    const orderId = shipTarget.order.id;
+
+    try {
+      setIsShipping(true);
+      await api.orders.shipments.create(orderId, input);
+      setShipTarget(null);
+    } catch (err: any) {
+      console.error('Error creating shipment:', err);
+      setError(err.message || 'Failed to record shipment');
+      return;
+    } finally {
+      setIsShipping(false);
     }
+    await reloadOrder(orderId, 'Shipment recorded');
   };
 
-  const getStatusColor = (status: OrderStatus) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'paid':
-        return 'bg-blue-100 text-blue-800';
-      case 'cancelled':
-        return 'bg-red-100 text-red-800';
-      case 'delivered':
-        return 'bg-green-100 text-green-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
+  // The refund dialog needs earlier refunds to know what is left to refund
+  const openRefundDialog = async (order: OrderSummary) => {
+    try {
+      setRefundTarget({ order, refunds: await api.orders.refunds.list(order.id) });
+    } catch (err: any) {
+      console.error('Error fetching refunds:', err);
+      setError(err.message || 'Failed to fetch refunds');
     }
   };
 
-  const getStatusIcon = (status: OrderStatus) => {
-    switch (status) {
-      case 'pending':
-        return <ClockIcon className="h-4 w-4" />;
-      case 'paid':
-        return <CheckIcon className="h-4 w-4" />;
-      case 'cancelled':
-        return <XMarkIcon className="h-4 w-4" />;
-      case 'delivered':
-        return <TruckIcon className="h-4 w-4" />;
-      default:
-        return null;
+  // The backend sets the refunded or partially refunded status, so reload the order
+  const handleCreateRefund = async (input: RefundInput) => {
+    if (!refundTarget) return;
+    const orderId = refundTarget.order.id;
+
+    try {
+      setIsRefunding(true);
+      await api.orders.refunds.create(orderId, input);
+      setRefundTarget(null);
+    } catch (err: any) {
+      console.error('Error creating refund:', err);
+      setError(err.message || 'Failed to issue refund');
+      return;
+    } finally {
+      setIsRefunding(false);
     }
+    await reloadOrder(orderId, 'Refund recorded');
   };
 
   const formatDate = (dateString: string) => {
@@ -111,24 +360,7 @@ export const OrdersPage: React.FC = () => {
     }).format(amount);
   };
 
-  const filteredOrders = orders.filter(order => {
-    if (filters.search) {
-      const searchTerm = filters.search.toLowerCase();
-      return (
-        order.id.toLowerCase().includes(searchTerm) ||
-        order.shipping_name.toLowerCase().includes(searchTerm) ||
-        order.shipping_address.email.toLowerCase().includes(searchTerm) ||
-        order.shipping_address.phone.toLowerCase().includes(searchTerm) ||
-        order.shipping_address.city.toLowerCase().includes(searchTerm) ||
-        order.shipping_address.state.toLowerCase().includes(searchTerm) ||
-        order.shipping_address.country.toLowerCase().includes(searchTerm) ||
-        order.items.some(item => item.product_name.toLowerCase().includes(searchTerm))
-      );
-    }
-    return true;
-  });
-
-  if (isLoading) {
+  if (isLoading && !result) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-iguana-600"></div>
@@ -136,7 +368,7 @@ export const OrdersPage: React.FC = () => {
     );
   }
 
-  if (error) {
+  if (error && !result) {
     return (
       <div className="text-center py-12 text-red-600">
         <p>Error: {error}</p>
@@ -156,10 +388,17 @@ export const OrdersPage: React.FC = () => {
         <div className="sm:flex-auto">
           <h1 className="text-2xl font-bold text-admin-900">Orders</h1>
           <p className="mt-2 text-sm text-admin-600">
-            Manage customer orders and track their status ({orders.length} total)
+            Manage customer orders and track their status ({result?.total ?? 0} total)
           </p>
         </div>
-        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none space-x-2">
+          <button
+            onClick={() => setExportScope('filtered')}
+            className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-iguana-500 focus:ring-offset-2"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+            Export
+          </button>
           <button
             onClick={() => setShowFilters(!showFilters)}
             className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-iguana-500 focus:ring-offset-2"
@@ -170,27 +409,60 @@ export const OrdersPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Customer Filter */}
+      {filters.userId && (
+        <div className="mt-6 mr-2 inline-flex items-center rounded-full bg-iguana-100 px-3 py-1 text-sm text-iguana-800">
+          <UserIcon className="h-4 w-4 mr-2" />
+          <span>
+            Customer: {customer ? `${customer.name} (${customer.email})` : `#${filters.userId.slice(-8)}`}
+          </span>
+          <button
+            onClick={() => updateFilters({ userId: undefined })}
+            className="ml-2 text-iguana-600 hover:text-iguana-900"
+            title="Show all customers"
+          >
+            <XMarkIcon className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Product Filter */}
+      {filters.productId && (
+        <div className="mt-6 inline-flex items-center rounded-full bg-iguana-100 px-3 py-1 text-sm text-iguana-800">
+          <CubeIcon className="h-4 w-4 mr-2" />
+          <span>Product: {productName || `#${filters.productId.slice(-8)}`}</span>
+          <button
+            onClick={() => updateFilters({ productId: undefined })}
+            className="ml-2 text-iguana-600 hover:text-iguana-900"
+            title="Show all products"
+          >
+            <XMarkIcon className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
       {/* Filters */}
       {showFilters && (
         <div className="mt-6 bg-white p-4 rounded-lg border border-gray-200">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Status
               </label>
               <select
                 value={filters.status || ''}
-                onChange={(e) => setFilters({ ...filters, status: e.target.value as OrderStatus || undefined })}
+                onChange={(e) => updateFilters({ status: (e.target.value as OrderStatus) || undefined })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
               >
                 <option value="">All Statuses</option>
-                <option value="pending">Pending</option>
-                <option value="paid">Paid</option>
-                <option value="cancelled">Cancelled</option>
-                <option value="delivered">Delivered</option>
+                {ORDER_STATUSES.map(status => (
+                  <option key={status} value={status}>
+                    {ORDER_STATUS_LABELS[status]}
+                  </option>
+                ))}
               </select>
             </div>
-            <div>
+            <form onSubmit={handleSearch} className="md:col-span-2">
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Search
               </label>
@@ -198,22 +470,117 @@ export const OrdersPage: React.FC = () => {
                 <MagnifyingGlassIcon className="h-5 w-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
                 <input
                   type="text"
-                  placeholder="Order ID, name, or email..."
-                  value={filters.search || ''}
-                  onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+                  placeholder="Order ID, name, or email, press Enter..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
                   className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
                 />
               </div>
+            </form>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                From
+              </label>
+              <input
+                type="date"
+                value={filters.dateFrom || ''}
+                max={filters.dateTo}
+                onChange={(e) => updateFilters({ dateFrom: e.target.value || undefined })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                To
+              </label>
+              <input
+                type="date"
+                value={filters.dateTo || ''}
+                min={filters.dateFrom}
+                onChange={(e) => updateFilters({ dateTo: e.target.value || undefined })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+              />
             </div>
-            <div className="flex items-end">
+          </div>
+          {hasFilters && (
+            <div className="mt-4 flex justify-end">
               <button
-                onClick={() => setFilters({})}
+                onClick={clearFilters}
                 className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
               >
                 Clear Filters
               </button>
             </div>
-          </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 rounded-md bg-red-50 p-4">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {/* Selection Actions */}
+      {selectedOrders.length > 0 && (
+        <div className="mt-4 flex flex-wrap items-center gap-2 rounded-md bg-iguana-50 border border-iguana-200 px-4 py-3">
+          <span className="text-sm font-medium text-iguana-800 mr-2">
+            {selectedOrders.length} selected
+          </span>
+          <select
+            value=""
+            onChange={(e) => handleBulkTransitionSelect(e.target.value)}
+            disabled={bulkTransitions.length === 0}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-iguana-500 focus:border-iguana-500 disabled:opacity-50"
+          >
+            <option value="">Change status...</option>
+            {bulkTransitions.map(transition => (
+              <option key={transition.to} value={transition.to}>
+                {transition.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => documents.print(selectedOrders, 'packing-slip')}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <PrinterIcon className="h-4 w-4 mr-2" />
+            Print Packing Slips
+          </button>
+          <button
+            onClick={() => documents.print(selectedOrders, 'invoice')}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <PrinterIcon className="h-4 w-4 mr-2" />
+            Print Invoices
+          </button>
+          <button
+            onClick={() => handleDownloadPdf('packing-slip')}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <DocumentArrowDownIcon className="h-4 w-4 mr-2" />
+            Packing Slips PDF
+          </button>
+          <button
+            onClick={() => handleDownloadPdf('invoice')}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <DocumentArrowDownIcon className="h-4 w-4 mr-2" />
+            Invoices PDF
+          </button>
+          <button
+            onClick={() => setExportScope('selected')}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+            Export
+          </button>
+          <button
+            onClick={() => setSelectedIds(new Set())}
+            className="ml-auto text-sm text-gray-600 hover:text-gray-800"
+          >
+            Clear selection
+          </button>
         </div>
       )}
 
@@ -221,10 +588,19 @@ export const OrdersPage: React.FC = () => {
       <div className="mt-8 flex flex-col">
         <div className="-my-2 -mx-4 overflow-x-auto sm:-mx-6 lg:-mx-8">
           <div className="inline-block min-w-full py-2 align-middle md:px-6 lg:px-8">
-            <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+            <div className={`overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg ${isLoading ? 'opacity-60' : ''}`}>
               <table className="min-w-full divide-y divide-gray-300">
                 <thead className="bg-gray-50">
                   <tr>
+                    <th scope="col" className="pl-6 py-3 w-4">
+                      <input
+                        type="checkbox"
+                        checked={allSelected}
+                        onChange={toggleAllSelected}
+                        className="h-4 w-4 rounded border-gray-300 text-iguana-600 focus:ring-iguana-500"
+                        aria-label="Select all orders"
+                      />
+                    </th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
                       Order
                     </th>
@@ -249,8 +625,17 @@ export const OrdersPage: React.FC = () => {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {filteredOrders.map((order) => (
-                    <tr key={order.id}>
+                  {orders.map((order) => (
+                    <tr key={order.id} className={selectedIds.has(order.id) ? 'bg-iguana-50' : undefined}>
+                      <td className="pl-6 py-4">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(order.id)}
+                          onChange={() => toggleSelected(order.id)}
+                          className="h-4 w-4 rounded border-gray-300 text-iguana-600 focus:ring-iguana-500"
+                          aria-label={`Select order #${order.id.slice(-8)}`}
+                        />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm font-medium text-gray-900">
                           #{order.id.slice(-8)}
@@ -304,10 +689,7 @@ export const OrdersPage: React.FC = () => {
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
-                          {getStatusIcon(order.status)}
-                          <span className="ml-1 capitalize">{order.status}</span>
-                        </span>
+                        <OrderStatusBadge status={order.status} />
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {formatCurrency(order.total_amount)}
@@ -322,59 +704,93 @@ export const OrdersPage: React.FC = () => {
                             <EyeIcon className="h-5 w-5" />
                           </Link>
                           
-                          {/* Status Update Buttons */}
-                          {order.status === 'pending' && (
-                            <button
-                              onClick={() => handleStatusUpdate(order.id, 'paid')}
-                              className="text-green-600 hover:text-green-900"
-                              title="Mark as Paid"
-                            >
-                              <CheckIcon className="h-5 w-5" />
-                            </button>
-                          )}
-                          
-                          {order.status === 'paid' && (
-                            <button
-                              onClick={() => handleStatusUpdate(order.id, 'delivered')}
-                              className="text-blue-600 hover:text-blue-900"
-                              title="Mark as Delivered"
-                            >
-                              <TruckIcon className="h-5 w-5" />
-                            </button>
-                          )}
-                          
-                          {(order.status === 'pending' || order.status === 'paid') && (
-                            <button
-                              onClick={() => handleStatusUpdate(order.id, 'cancelled')}
-                              className="text-red-600 hover:text-red-900"
-                              title="Cancel Order"
-                            >
-                              <XMarkIcon className="h-5 w-5" />
-                            </button>
-                          )}
+                          <OrderStatusActions
+                            variant="icons"
+                            status={order.status}
+                            onTransition={(update) => handleStatusUpdate(order.id, update)}
+                            customActions={{
+                              shipped: () => openShipDialog(order),
+                              refunded: () => openRefundDialog(order),
+                            }}
+                          />
                         </div>
                       </td>
                     </tr>
                   ))}
                 </tbody>
               </table>
+              {result && result.total > 0 && (
+                <Pagination
+                  page={filters.page}
+                  pageSize={filters.pageSize}
+                  total={result.total}
+                  onPageChange={(page) => updateFilters({ page })}
+                  onPageSizeChange={(pageSize) => updateFilters({ pageSize })}
+                />
+              )}
             </div>
           </div>
         </div>
       </div>
 
-      {filteredOrders.length === 0 && !isLoading && (
+      {orders.length === 0 && !isLoading && (
         <div className="text-center py-12">
           <ClockIcon className="mx-auto h-12 w-12 text-gray-400" />
           <h3 className="mt-2 text-sm font-medium text-gray-900">No orders found</h3>
           <p className="mt-1 text-sm text-gray-500">
-            {filters.status || filters.search 
+            {hasFilters
               ? 'Try adjusting your filters to see more orders.'
               : 'Orders will appear here when customers make purchases.'
             }
           </p>
         </div>
       )}
+
+      {shipTarget && (
+        <ShipOrderDialog
+          isOpen
+          order={shipTarget.order}
+          shipments={shipTarget.shipments}
+          isSubmitting={isShipping}
+          onClose={() => setShipTarget(null)}
+          onSubmit={handleCreateShipment}
+        />
+      )}
+
+      {refundTarget && (
+        <RefundDialog
+          isOpen
+          order={refundTarget.order}
+          refunds={refundTarget.refunds}
+          isSubmitting={isRefunding}
+          onClose={() => setRefundTarget(null)}
+          onSubmit={handleCreateRefund}
+        />
+      )}
+
+      {bulkProgress && (
+        <BulkActionResults
+          title={`Updating ${bulkProgress.total} order${bulkProgress.total !== 1 ? 's' : ''}`}
+          progress={bulkProgress}
+          results={bulkResults}
+          onClose={closeBulkResults}
+        />
+      )}
+
+      <ExportDialog
+        isOpen={exportScope !== null}
+        title="Export Orders"
+        hint="Choosing any line item column exports one row per line item."
+        columns={ORDER_EXPORT_COLUMNS}
+        defaultColumnIds={DEFAULT_ORDER_COLUMN_IDS}
+        selectedCount={selectedOrders.length}
+        hasFilters={hasFilters}
+        initialScope={exportScope || undefined}
+        onClose={() => setExportScope(null)}
+        onExport={handleExport}
+      />
+
+      {documents.printView}
     </div>
   );
 };
@@ -0,0 +1,432 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAdminApi } from '../services/api';
+import { getCategoryName, useCategories } from '../services/categories';
+import { getPriceRange, getTotalStock, getVariantLabel, hasVariants } from '../services/productVariants';
+import { applyInventoryEntry } from '../services/inventory';
+import { ProductStatusBadge } from '../components/products/ProductStatusBadge';
+import { OrderStatusBadge } from '../components/orders/OrderStatusBadge';
+import { AdjustStockDialog } from '../components/products/AdjustStockDialog';
+import { DuplicateProductDialog } from '../components/products/DuplicateProductDialog';
+import { InventoryLedger } from '../components/products/InventoryLedger';
+import { ConfirmationDialog } from '../components/ui/ConfirmationDialog';
+import { InventoryEntry, Paginated, Product, ProductImage, ProductSales, StockAdjustmentInput } from '../types';
+import { OrderSummary } from '../types/order';
+import {
+  ArchiveBoxIcon,
+  ArchiveBoxArrowDownIcon,
+  ArrowLeftIcon,
+  DocumentDuplicateIcon,
+  PencilIcon,
+  PhotoIcon,
+} from '@heroicons/react/24/outline';
+
+const RECENT_ORDER_COUNT = 10;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const ProductDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const api = useAdminApi();
+  const { categories } = useCategories({ includeArchived: true });
+  const [product, setProduct] = useState<Product | null>(null);
+  const [images, setImages] = useState<ProductImage[]>([]);
+  // Secondary panels are null when they failed to load
+  const [ledger, setLedger] = useState<InventoryEntry[] | null>(null);
+  const [recentOrders, setRecentOrders] = useState<Paginated<OrderSummary> | null>(null);
+  const [sales, setSales] = useState<ProductSales | null>(null);
+  const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState('');
+  const [showArchiveDialog, setShowArchiveDialog] = useState(false);
+  const [showDuplicateDialog, setShowDuplicateDialog] = useState(false);
+  const [showAdjustDialog, setShowAdjustDialog] = useState(false);
+
+  // Only the product itself is required; stock history, recent orders and
+  // sales are shown when they load and the product page stays up when they don't
+  const fetchProduct = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setIsLoading(true);
+      const detail = await api.products.get(id);
+      const [entryResult, orderResult, salesResult] = await Promise.allSettled([
+        api.inventory.list(id),
+        api.orders.search({ page: 1, pageSize: RECENT_ORDER_COUNT, productId: id }),
+        api.products.sales(id),
+      ]);
+      setProduct(detail.product);
+      setImages([...detail.images].sort((a, b) => a.display_order - b.display_order));
+      if (entryResult.status === 'fulfilled') {
+        setLedger(entryResult.value);
+      } else {
+        console.error('Error fetching stock history:', entryResult.reason);
+      }
+      if (orderResult.status === 'fulfilled') {
+        setRecentOrders(orderResult.value);
+      } else {
+        console.error('Error fetching product orders:', orderResult.reason);
+      }
+      if (salesResult.status === 'fulfilled') {
+        setSales(salesResult.value);
+      } else {
+        console.error('Error fetching product sales:', salesResult.reason);
+      }
+    } catch (err: any) {
+      console.error('Error fetching product:', err);
+      setError(err.message || 'Failed to fetch product');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api, id]);
+
+  useEffect(() => {
+    fetchProduct();
+  }, [fetchProduct]);
+
+  const handleAdjustStock = async (input: StockAdjustmentInput) => {
+    if (!product) return;
+
+    try {
+      setIsUpdating(true);
+      const entry = await api.inventory.adjust(product.id, input);
+      setLedger(ledger && [entry, ...ledger]);
+      setProduct(applyInventoryEntry(product, entry));
+      setShowAdjustDialog(false);
+    } catch (err: any) {
+      console.error('Error adjusting stock:', err);
+      setError(err.message || 'Failed to adjust stock');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleArchive = async () => {
+    if (!product) return;
+    setShowArchiveDialog(false);
+
+    try {
+      setIsUpdating(true);
+      setProduct(await api.products.updateStatus(product.id, { status: 'archived' }));
+    } catch (err: any) {
+      console.error('Error archiving product:', err);
+      setError(err.message || 'Failed to archive product');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-iguana-600"></div>
+      </div>
+    );
+  }
+
+  if (!product) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-semibold text-admin-900 mb-2">Product Not Found</h2>
+        <p className="text-admin-600 mb-4">{error || "The product you're looking for doesn't exist."}</p>
+        <button
+          onClick={() => navigate('/products')}
+          className="px-4 py-2 bg-iguana-600 text-white rounded-md hover:bg-iguana-700"
+        >
+          Back to Products
+        </button>
+      </div>
+    );
+  }
+
+  const selectedImage =
+    images.find(image => image.id === selectedImageId) || images.find(image => image.is_main) || images[0];
+  const [minPrice, maxPrice] = getPriceRange(product);
+
+  const details: { label: string; value: React.ReactNode }[] = [
+    { label: 'SKU', value: product.sku || '—' },
+    { label: 'Category', value: getCategoryName(categories, product.category) },
+    {
+      label: 'Price',
+      value: minPrice === maxPrice
+        ? formatCurrency(minPrice)
+        : `${formatCurrency(minPrice)} – ${formatCurrency(maxPrice)}`,
+    },
+    { label: 'Stock', value: getTotalStock(product) },
+    ...(product.publish_at ? [{ label: 'Publish At', value: formatDate(product.publish_at) }] : []),
+    { label: 'Created', value: formatDate(product.created_at) },
+    { label: 'Updated', value: formatDate(product.updated_at) },
+    { label: 'Product ID', value: product.id },
+  ];
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-6">
+        <button
+          onClick={() => navigate('/products')}
+          className="flex items-center text-iguana-600 hover:text-iguana-700 mb-4"
+        >
+          <ArrowLeftIcon className="h-5 w-5 mr-2" />
+          Back to Products
+        </button>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <h1 className="text-2xl font-bold text-admin-900">{product.name}</h1>
+            <ProductStatusBadge product={product} size="md" />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Link
+              to={`/products/${product.id}/edit`}
+              className="flex items-center px-3 py-1.5 border border-transparent rounded-md text-sm font-medium text-white bg-iguana-600 hover:bg-iguana-700"
+            >
+              <PencilIcon className="h-4 w-4 mr-2" />
+              Edit
+            </Link>
+            <button
+              onClick={() => setShowDuplicateDialog(true)}
+              disabled={isUpdating}
+              className="flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <DocumentDuplicateIcon className="h-4 w-4 mr-2" />
+              Duplicate
+            </button>
+            {product.status !== 'archived' && (
+              <button
+                onClick={() => setShowArchiveDialog(true)}
+                disabled={isUpdating}
+                className="flex items-center px-3 py-1.5 border border-red-300 rounded-md text-sm font-medium text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+              >
+                <ArchiveBoxIcon className="h-4 w-4 mr-2" />
+                Archive
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Gallery */}
+          <div className="bg-white shadow rounded-lg p-6">
+            {selectedImage ? (
+              <>
+                <img
+                  src={selectedImage.image_url}
+                  alt={product.name}
+                  className="w-full h-80 object-contain rounded-lg bg-gray-50"
+                />
+                {images.length > 1 && (
+                  <div className="mt-4 grid grid-cols-6 gap-2">
+                    {images.map((image, index) => (
+                      <button
+                        key={image.id}
+                        onClick={() => setSelectedImageId(image.id)}
+                        className={`relative rounded-md overflow-hidden border-2 ${
+                          image.id === selectedImage.id ? 'border-iguana-500' : 'border-transparent'
+                        }`}
+                      >
+                        <img
+                          src={image.image_url}
+                          alt={`${product.name} ${index + 1}`}
+                          className="h-16 w-full object-cover"
+                        />
+                        {image.is_main && (
+                          <span className="absolute top-0.5 left-0.5 bg-yellow-100 text-yellow-800 text-[10px] px-1 rounded">
+                            Main
+                          </span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="text-center py-12 text-gray-500 border-2 border-dashed border-gray-300 rounded-lg">
+                <PhotoIcon className="h-12 w-12 mx-auto mb-2 text-gray-400" />
+                <p>No images uploaded yet</p>
+              </div>
+            )}
+          </div>
+
+          {/* Details */}
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Details</h3>
+            </div>
+            <div className="px-6 py-4 space-y-4">
+              <p className="text-sm text-gray-700 whitespace-pre-line">{product.description}</p>
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+                {details.map(detail => (
+                  <div key={detail.label}>
+                    <dt className="text-xs font-medium text-gray-500 uppercase tracking-wide">{detail.label}</dt>
+                    <dd className="mt-1 text-sm text-gray-900 break-all">{detail.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+            {hasVariants(product) && (
+              <div className="border-t border-gray-200 overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {['Variant', 'SKU', 'Price', 'Stock'].map(heading => (
+                        <th key={heading} scope="col" className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
+                          {heading}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {product.variants!.map(variant => (
+                      <tr key={variant.sku}>
+                        <td className="px-6 py-2 text-gray-900">{getVariantLabel(variant)}</td>
+                        <td className="px-6 py-2 text-gray-500">{variant.sku}</td>
+                        <td className="px-6 py-2 text-gray-900">{formatCurrency(variant.price ?? product.price)}</td>
+                        <td className={`px-6 py-2 ${variant.stock_quantity === 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                          {variant.stock_quantity}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Inventory */}
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="text-lg font-medium text-gray-900">Inventory</h3>
+              <button
+                onClick={() => setShowAdjustDialog(true)}
+                className="flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <ArchiveBoxArrowDownIcon className="h-4 w-4 mr-2" />
+                Adjust Stock
+              </button>
+            </div>
+            {ledger ? (
+              <InventoryLedger entries={ledger} product={product} />
+            ) : (
+              <p className="px-6 py-4 text-sm text-gray-500">Stock history could not be loaded.</p>
+            )}
+          </div>
+
+          {/* Recent Orders */}
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="text-lg font-medium text-gray-900">Recent Orders</h3>
+              {recentOrders && recentOrders.total > 0 && (
+                <Link to={`/orders?product=${product.id}`} className="text-sm text-iguana-600 hover:text-iguana-900">
+                  View all {recentOrders.total}
+                </Link>
+              )}
+            </div>
+            {!recentOrders ? (
+              <p className="px-6 py-4 text-sm text-gray-500">Recent orders could not be loaded.</p>
+            ) : recentOrders.items.length > 0 ? (
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <tbody className="divide-y divide-gray-200">
+                  {recentOrders.items.map(order => {
+                    const items = order.items.filter(item => item.product_id === product.id);
+                    return (
+                      <tr key={order.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-3">
+                          <Link to={`/orders/${order.id}`} className="font-medium text-iguana-600 hover:text-iguana-900">
+                            #{order.id.slice(-8)}
+                          </Link>
+                          <div className="text-gray-500">{order.shipping_name}</div>
+                        </td>
+                        <td className="px-6 py-3 text-gray-500">{formatDate(order.created_at)}</td>
+                        <td className="px-6 py-3">
+                          <OrderStatusBadge status={order.status} />
+                        </td>
+                        <td className="px-6 py-3 text-right text-gray-900">
+                          {items.reduce((sum, item) => sum + item.quantity, 0)} ×{' '}
+                          {formatCurrency(items.reduce((sum, item) => sum + item.subtotal, 0))}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <p className="px-6 py-4 text-sm text-gray-500">This product has not been ordered yet.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Sales */}
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Sales</h3>
+            </div>
+            {sales ? (
+              <dl className="px-6 py-4 space-y-3">
+                <div className="flex justify-between text-sm">
+                  <dt className="text-gray-500">Revenue</dt>
+                  <dd className="font-medium text-gray-900">{formatCurrency(sales.revenue)}</dd>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <dt className="text-gray-500">Units sold</dt>
+                  <dd className="font-medium text-gray-900">{sales.units_sold}</dd>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <dt className="text-gray-500">Orders</dt>
+                  <dd className="font-medium text-gray-900">{sales.order_count}</dd>
+                </div>
+                <p className="text-xs text-gray-500">Excludes cancelled and refunded orders.</p>
+              </dl>
+            ) : (
+              <p className="px-6 py-4 text-sm text-gray-500">Sales figures could not be loaded.</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <AdjustStockDialog
+        isOpen={showAdjustDialog}
+        product={product}
+        isSubmitting={isUpdating}
+        onClose={() => setShowAdjustDialog(false)}
+        onSubmit={handleAdjustStock}
+      />
+
+      <DuplicateProductDialog
+        isOpen={showDuplicateDialog}
+        product={product}
+        onClose={() => setShowDuplicateDialog(false)}
+      />
+
+      <ConfirmationDialog
+        isOpen={showArchiveDialog}
+        onClose={() => setShowArchiveDialog(false)}
+        onConfirm={handleArchive}
+        title="Archive Product"
+        message={`Archiving ${product.name} hides it from the shop. You can restore it as a draft from the edit page.`}
+        confirmText="Archive"
+        cancelText="Cancel"
+        confirmButtonClass="bg-red-600 hover:bg-red-700 focus:ring-red-500"
+      />
+    </div>
+  );
+};
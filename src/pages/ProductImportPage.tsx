@@ -0,0 +1,340 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAdminApi } from '../services/api';
+import { fetchAllPages } from '../services/export';
+import { BulkProgress, runBulkAction } from '../services/bulkActions';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportMode,
+  ImportRow,
+  Spreadsheet,
+  buildImportRows,
+  getMissingFields,
+  guessMapping,
+  readSpreadsheet,
+} from '../services/productImport';
+import { getCategoryName, useCategories } from '../services/categories';
+import { toProductUpdate } from '../services/inventory';
+import { BulkActionResults, BulkResultRow } from '../components/ui/BulkActionResults';
+import { Product } from '../types';
+import {
+  ArrowLeftIcon,
+  ArrowPathIcon,
+  ArrowUpTrayIcon,
+  CheckCircleIcon,
+  ExclamationCircleIcon,
+} from '@heroicons/react/24/outline';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+export const ProductImportPage: React.FC = () => {
+  const api = useAdminApi();
+  const navigate = useNavigate();
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<Spreadsheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [mode, setMode] = useState<ImportMode>('create');
+  const [existingProducts, setExistingProducts] = useState<Product[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState('');
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [results, setResults] = useState<Record<number, string | undefined> | null>(null);
+  const { categories, error: categoriesError } = useCategories();
+
+  const rows = useMemo(
+    () => (sheet ? buildImportRows(sheet, mapping, mode, categories, existingProducts) : []),
+    [sheet, mapping, mode, categories, existingProducts]
+  );
+  const missingFields = getMissingFields(mapping, mode);
+  const validRows = rows.filter(row => row.input);
+  // Once imported, the sheet is locked so the same rows cannot be sent twice
+  const isImported = results !== null;
+
+  // Existing products are needed to match updates and catch duplicate SKUs
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setIsReading(true);
+      setError('');
+      setResults(null);
+      const [spreadsheet, products] = await Promise.all([
+        readSpreadsheet(file),
+        fetchAllPages((page, pageSize) =>
+          api.products.search({ page, pageSize, sort: 'updated_at', direction: 'desc' })
+        ),
+      ]);
+      setFileName(file.name);
+      setSheet(spreadsheet);
+      setMapping(guessMapping(spreadsheet.headers));
+      setExistingProducts(products.map(item => item.product));
+    } catch (err: any) {
+      console.error('Error reading import file:', err);
+      setError(err.message || 'Failed to read file');
+    } finally {
+      setIsReading(false);
+      e.target.value = '';
+    }
+  };
+
+  const updateMapping = (field: ImportField, column: string) => {
+    setMapping({ ...mapping, [field]: column === '' ? undefined : Number(column) });
+  };
+
+  // Existing products are stale after an import, so they are fetched again with the next file
+  const startOver = () => {
+    setFileName('');
+    setSheet(null);
+    setMapping({});
+    setExistingProducts([]);
+    setResults(null);
+  };
+
+  const handleImport = async () => {
+    const outcome = await runBulkAction(
+      validRows,
+      async row => {
+        if (row.action === 'update' && row.existing) {
+          // The update leaves stock alone; a changed level is one ledger correction,
+          // so a restock sheet with just SKU and stock only touches the ledger
+          const { existing, input } = row;
+          const update = toProductUpdate(input!);
+          const changed = (Object.keys(update) as (keyof typeof update)[]).some(
+            field => update[field] !== undefined && JSON.stringify(update[field]) !== JSON.stringify(existing[field])
+          );
+          if (changed) {
+            await api.products.update(existing.id, update);
+          }
+          const delta = input!.stock_quantity - existing.stock_quantity;
+          if (delta !== 0) {
+            await api.inventory.adjust(existing.id, {
+              type: 'correction',
+              delta,
+              reason: `Imported from ${fileName}`,
+            });
+          }
+        } else {
+          await api.products.create(row.input!);
+        }
+      },
+      setProgress
+    );
+    setResults(Object.fromEntries(outcome.map(({ item, error }) => [item.rowNumber, error])));
+  };
+
+  const resultRows: BulkResultRow[] | undefined = results
+    ? validRows.map(row => ({ key: String(row.rowNumber), label: `Row ${row.rowNumber}`, error: results[row.rowNumber] }))
+    : undefined;
+
+  const renderStatus = (row: ImportRow) => {
+    if (results && row.rowNumber in results) {
+      const failure = results[row.rowNumber];
+      return failure ? (
+        <span className="text-red-600">{failure}</span>
+      ) : (
+        <span className="inline-flex items-center text-green-700">
+          <CheckCircleIcon className="h-4 w-4 mr-1" />
+          {row.action === 'update' ? 'Updated' : 'Created'}
+        </span>
+      );
+    }
+    if (row.errors.length > 0) {
+      return (
+        <ul className="text-red-600 space-y-0.5">
+          {row.errors.map(message => (
+            <li key={message} className="flex items-start">
+              <ExclamationCircleIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+              {message}
+            </li>
+          ))}
+        </ul>
+      );
+    }
+    return <span className="text-gray-500">Ready</span>;
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="mb-6">
+        <button
+          onClick={() => navigate('/products')}
+          className="flex items-center text-iguana-600 hover:text-iguana-700 mb-4"
+        >
+          <ArrowLeftIcon className="h-5 w-5 mr-2" />
+          Back to Products
+        </button>
+        <h1 className="text-2xl font-bold text-admin-900">Import Products</h1>
+        <p className="text-admin-600">Create or update products from a CSV or Excel file</p>
+      </div>
+
+      {(error || categoriesError) && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error || categoriesError}</p>
+        </div>
+      )}
+
+      {/* File & Mode */}
+      <div className="bg-white shadow rounded-lg p-6 mb-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-admin-700 mb-2">File</label>
+          <label className={`inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 ${isImported ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+            <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+            {isReading ? 'Reading...' : 'Choose CSV or XLSX'}
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleFileChange}
+              disabled={isReading || isImported}
+              className="hidden"
+            />
+          </label>
+          {sheet && (
+            <p className="mt-2 text-sm text-gray-500">
+              {fileName}: {sheet.rows.length} row{sheet.rows.length !== 1 ? 's' : ''}
+            </p>
+          )}
+        </div>
+        <fieldset>
+          <legend className="block text-sm font-medium text-admin-700 mb-2">Mode</legend>
+          <label className="flex items-center text-sm text-gray-700 mb-2">
+            <input
+              type="radio"
+              name="import_mode"
+              checked={mode === 'create'}
+              onChange={() => setMode('create')}
+              disabled={isImported}
+              className="mr-2 text-iguana-600 focus:ring-iguana-500"
+            />
+            Create new products
+          </label>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="radio"
+              name="import_mode"
+              checked={mode === 'update'}
+              onChange={() => setMode('update')}
+              disabled={isImported}
+              className="mr-2 text-iguana-600 focus:ring-iguana-500"
+            />
+            Update existing products matched by ID or SKU
+          </label>
+        </fieldset>
+      </div>
+
+      {sheet && (
+        <>
+          {/* Column Mapping */}
+          <div className="bg-white shadow rounded-lg p-6 mb-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-1">Columns</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              {mode === 'update'
+                ? 'Map the ID or SKU column plus the fields to change; unmapped fields keep their current values.'
+                : 'Map a column to every required field.'}
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {IMPORT_FIELDS.map(({ field, label }) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {label}
+                    {missingFields.includes(field) && <span className="text-red-600"> *</span>}
+                  </label>
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => updateMapping(field, e.target.value)}
+                    disabled={isImported}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500 text-sm"
+                  >
+                    <option value="">Not mapped</option>
+                    {sheet.headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-medium text-gray-900">Preview</h2>
+                <p className="text-sm text-gray-500">
+                  {missingFields.length > 0
+                    ? 'Finish mapping the required columns to validate the rows.'
+                    : `${validRows.length} of ${rows.length} rows are ready to import`}
+                </p>
+              </div>
+              {isImported ? (
+                <button
+                  onClick={startOver}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  <ArrowPathIcon className="h-4 w-4 mr-2" />
+                  Start Over
+                </button>
+              ) : (
+                <button
+                  onClick={handleImport}
+                  disabled={missingFields.length > 0 || validRows.length === 0 || progress !== null}
+                  className="inline-flex items-center px-4 py-2 bg-iguana-600 text-white rounded-md text-sm font-medium hover:bg-iguana-700 disabled:opacity-50"
+                >
+                  <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+                  Import {validRows.length} Row{validRows.length !== 1 ? 's' : ''}
+                </button>
+              )}
+            </div>
+            {missingFields.length === 0 && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {['Row', 'Action', 'Name', 'SKU', 'Category', 'Price', 'Stock', 'Status'].map(heading => (
+                        <th key={heading} scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
+                          {heading}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200 text-sm">
+                    {rows.map(row => (
+                      <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : undefined}>
+                        <td className="px-4 py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-4 py-2 text-gray-900">
+                          {row.action === 'update' ? 'Update' : 'Create'}
+                        </td>
+                        <td className="px-4 py-2 text-gray-900">{row.input?.name || row.existing?.name || '—'}</td>
+                        <td className="px-4 py-2 text-gray-500">{row.input?.sku || row.existing?.sku || '—'}</td>
+                        <td className="px-4 py-2 text-gray-500">
+                          {row.input ? getCategoryName(categories, row.input.category) : '—'}
+                        </td>
+                        <td className="px-4 py-2 text-gray-900">{row.input ? formatCurrency(row.input.price) : '—'}</td>
+                        <td className="px-4 py-2 text-gray-900">{row.input?.stock_quantity ?? '—'}</td>
+                        <td className="px-4 py-2">{renderStatus(row)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {progress && (
+        <BulkActionResults
+          title={`Importing ${progress.total} product${progress.total !== 1 ? 's' : ''}`}
+          progress={progress}
+          results={resultRows}
+          onClose={() => setProgress(null)}
+        />
+      )}
+    </div>
+  );
+};
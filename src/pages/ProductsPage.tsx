@@ -1,22 +1,132 @@
-import React, { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { ProductListResponse } from '../types';
+import { useAdminApi } from '../services/api';
+import { ExportRequest, buildExportTable, downloadExport, fetchAllPages, selectColumns } from '../services/export';
+import { PRODUCT_EXPORT_COLUMNS, REORDER_EXPORT_COLUMNS } from '../services/exportColumns';
+import { StockLevel, getReorderList, getStockLevel } from '../services/stockLevels';
+import { getOutOfStockVariants, getPriceRange, getTotalStock, hasVariants } from '../services/productVariants';
+import { getCategoryName, getCategoryOptions, useCategories } from '../services/categories';
+import { PRODUCT_STATUSES, PRODUCT_STATUS_LABELS } from '../services/productPublication';
+import { Pagination } from '../components/ui/Pagination';
+import { ExportDialog } from '../components/ui/ExportDialog';
+import { ProductStatusBadge } from '../components/products/ProductStatusBadge';
+import { DuplicateProductDialog } from '../components/products/DuplicateProductDialog';
+import {
+  Paginated,
+  Product,
+  ProductListResponse,
+  ProductQuery,
+  ProductSortField,
+  ProductStatus,
+  StockAlert,
+} from '../types';
 import {
   PlusIcon,
   PencilIcon,
   TrashIcon,
+  DocumentDuplicateIcon,
   EyeIcon,
   CubeIcon,
-  PhotoIcon,
+  FunnelIcon,
+  MagnifyingGlassIcon,
+  ChevronUpIcon,
+  ChevronDownIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  ClipboardDocumentListIcon,
 } from '@heroicons/react/24/outline';
 
+const stockLevelRowClasses: Record<StockLevel, string> = {
+  out: 'bg-red-50',
+  low: 'bg-yellow-50',
+  ok: '',
+};
+
+const sortFields: ProductSortField[] = ['name', 'price', 'stock_quantity', 'updated_at'];
+
+const DEFAULT_QUERY: ProductQuery = {
+  page: 1,
+  pageSize: 25,
+  sort: 'updated_at',
+  direction: 'desc',
+};
+
+const parseInteger = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : undefined;
+};
+
+// The table state lives in the URL so filtered views can be shared as links.
+const parseProductQuery = (params: URLSearchParams): ProductQuery => {
+  const sort = params.get('sort') as ProductSortField | null;
+  const hasImage = params.get('has_image');
+  const status = params.get('status') as ProductStatus | null;
+  const stockAlert = params.get('stock_alert');
+  const page = parseInteger(params.get('page'));
+  const pageSize = parseInteger(params.get('page_size'));
+
+  return {
+    page: page && page > 0 ? page : DEFAULT_QUERY.page,
+    pageSize: pageSize && pageSize > 0 ? pageSize : DEFAULT_QUERY.pageSize,
+    sort: sort && sortFields.includes(sort) ? sort : DEFAULT_QUERY.sort,
+    direction: params.get('order') === 'asc' ? 'asc' : params.get('order') === 'desc' ? 'desc' : DEFAULT_QUERY.direction,
+    search: params.get('search') || undefined,
+    category: params.get('category') || undefined,
+    status: status && PRODUCT_STATUSES.includes(status) ? status : undefined,
+    stockAlert: stockAlert === 'low' || stockAlert === 'out' ? stockAlert : undefined,
+    minStock: parseInteger(params.get('min_stock')),
+    maxStock: parseInteger(params.get('max_stock')),
+    hasImage: hasImage === 'true' ? true : hasImage === 'false' ? false : undefined,
+  };
+};
+
+const toSearchParams = (query: ProductQuery): Record<string, string> => {
+  const params: Record<string, string> = {};
+  if (query.page !== DEFAULT_QUERY.page) params.page = String(query.page);
+  if (query.pageSize !== DEFAULT_QUERY.pageSize) params.page_size = String(query.pageSize);
+  if (query.sort !== DEFAULT_QUERY.sort) params.sort = query.sort;
+  if (query.direction !== DEFAULT_QUERY.direction) params.order = query.direction;
+  if (query.search) params.search = query.search;
+  if (query.category) params.category = query.category;
+  if (query.status) params.status = query.status;
+  if (query.stockAlert) params.stock_alert = query.stockAlert;
+  if (query.minStock !== undefined) params.min_stock = String(query.minStock);
+  if (query.maxStock !== undefined) params.max_stock = String(query.maxStock);
+  if (query.hasImage !== undefined) params.has_image = String(query.hasImage);
+  return params;
+};
+
 export const ProductsPage: React.FC = () => {
-  const { apiRequest, isAuthenticated, user } = useAuth();
-  const [products, setProducts] = useState<ProductListResponse[]>([]);
+  const { isAuthenticated } = useAuth();
+  const api = useAdminApi();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Archived categories can still hold products, so they stay filterable
+  const { categories } = useCategories({ includeArchived: true });
+  const [result, setResult] = useState<Paginated<ProductListResponse> | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [duplicating, setDuplicating] = useState<Product | null>(null);
 
+  const queryString = searchParams.toString();
+  const query = parseProductQuery(searchParams);
+  const [searchInput, setSearchInput] = useState(query.search || '');
+
+  const fetchProducts = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      setResult(await api.products.search(parseProductQuery(new URLSearchParams(queryString))));
+    } catch (err: any) {
+      console.error('Error fetching products:', err);
+      setError(err.message || 'Failed to fetch products');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api, queryString]);
 
   useEffect(() => {
     if (isAuthenticated) {
@@ -25,39 +135,43 @@ export const ProductsPage: React.FC = () => {
       console.log('User not authenticated, skipping product fetch');
       setIsLoading(false);
     }
-  }, [isAuthenticated]);
+  }, [isAuthenticated, fetchProducts]);
 
-  const fetchProducts = async () => {
-    try {
-      setIsLoading(true);
-      const data = await apiRequest('/products');
-      
-      // Handle the actual data structure - products are returned directly, not wrapped
-      const validProducts = Array.isArray(data) 
-        ? data.filter(item => {
-            // Check if item has the expected product properties directly
-            return item && item.id && item.name;
-          }).map(item => ({
-            // Transform to expected ProductListResponse format
-            product: item,
-            primary_image_url: item.primary_image_url || null
-          }))
-        : [];
-      
-      setProducts(validProducts);
-    } catch (err: any) {
-      console.error('Error fetching products:', err);
-      setError(err.message || 'Failed to fetch products');
-    } finally {
-      setIsLoading(false);
+  // Back/forward and links to a filtered list change the search without typing
+  const searchParam = searchParams.get('search') || '';
+  useEffect(() => {
+    setSearchInput(searchParam);
+  }, [searchParam]);
+
+  const updateQuery = (changes: Partial<ProductQuery>) => {
+    // Any change other than paging sends the user back to the first page
+    const resetPage = !('page' in changes);
+    setSearchParams(toSearchParams({ ...query, ...(resetPage && { page: 1 }), ...changes }));
+  };
+
+  const handleSort = (field: ProductSortField) => {
+    if (query.sort === field) {
+      updateQuery({ direction: query.direction === 'asc' ? 'desc' : 'asc' });
+    } else {
+      updateQuery({ sort: field, direction: 'asc' });
     }
   };
 
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateQuery({ search: searchInput.trim() || undefined });
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setSearchParams(toSearchParams({ ...DEFAULT_QUERY, pageSize: query.pageSize, sort: query.sort, direction: query.direction }));
+  };
+
   const handleDeleteProduct = async (id: string) => {
     if (window.confirm('Are you sure you want to delete this product?')) {
       try {
-        await apiRequest(`/admin/products/${id}`, { method: 'DELETE' });
-        setProducts(products.filter(p => p.product.id !== id));
+        await api.products.remove(id);
+        await fetchProducts();
       } catch (err: any) {
         console.error('Delete product error:', err);
         setError(err.message || 'Failed to delete product');
@@ -65,7 +179,56 @@ export const ProductsPage: React.FC = () => {
     }
   };
 
-  if (isLoading) {
+  const handleExport = async ({ scope, format, columnIds }: ExportRequest) => {
+    const exported = await fetchAllPages((page, pageSize) =>
+      api.products.search(scope === 'all' ? { ...DEFAULT_QUERY, page, pageSize } : { ...query, page, pageSize })
+    );
+    const columns = selectColumns(PRODUCT_EXPORT_COLUMNS, columnIds);
+    await downloadExport(buildExportTable(exported, columns), 'products', format);
+  };
+
+  // Covers every product at or below its threshold, whatever the current filters
+  const handleReorderList = async () => {
+    try {
+      const lowStock = await fetchAllPages((page, pageSize) =>
+        api.products.search({ ...DEFAULT_QUERY, page, pageSize, stockAlert: 'low' })
+      );
+      const reorderList = getReorderList(lowStock.map(item => item.product));
+      await downloadExport(buildExportTable(reorderList, REORDER_EXPORT_COLUMNS), 'reorder-list', 'csv');
+    } catch (err: any) {
+      console.error('Error exporting reorder list:', err);
+      setError(err.message || 'Failed to export reorder list');
+    }
+  };
+
+  const hasFilters = Boolean(
+    query.search || query.category || query.status || query.stockAlert || query.minStock !== undefined || query.maxStock !== undefined || query.hasImage !== undefined
+  );
+  const products = result?.items || [];
+
+  const renderPrice = (product: Product) => {
+    const [min, max] = getPriceRange(product);
+    return min === max ? `$${min.toFixed(2)}` : `$${min.toFixed(2)} – $${max.toFixed(2)}`;
+  };
+
+  const renderSortableHeader = (label: string, field: ProductSortField) => (
+    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
+      <button
+        type="button"
+        onClick={() => handleSort(field)}
+        className="inline-flex items-center uppercase tracking-wide hover:text-gray-700"
+      >
+        {label}
+        {query.sort === field && (
+          query.direction === 'asc'
+            ? <ChevronUpIcon className="h-3 w-3 ml-1" />
+            : <ChevronDownIcon className="h-3 w-3 ml-1" />
+        )}
+      </button>
+    </th>
+  );
+
+  if (isLoading && !result) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-iguana-600"></div>
@@ -82,7 +245,35 @@ export const ProductsPage: React.FC = () => {
             Manage your jewelry products and inventory
           </p>
         </div>
-        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex space-x-3">
+          <button
+            onClick={() => setShowExport(true)}
+            className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-iguana-500 focus:ring-offset-2"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+            Export
+          </button>
+          <button
+            onClick={handleReorderList}
+            className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-iguana-500 focus:ring-offset-2"
+          >
+            <ClipboardDocumentListIcon className="h-4 w-4 mr-2" />
+            Reorder List
+          </button>
+          <Link
+            to="/products/import"
+            className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-iguana-500 focus:ring-offset-2"
+          >
+            <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+            Import
+          </Link>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-iguana-500 focus:ring-offset-2"
+          >
+            <FunnelIcon className="h-4 w-4 mr-2" />
+            Filters
+          </button>
           <Link
             to="/products/new"
             className="inline-flex items-center justify-center rounded-md border border-transparent bg-iguana-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-iguana-700 focus:outline-none focus:ring-2 focus:ring-iguana-500 focus:ring-offset-2 sm:w-auto"
@@ -93,6 +284,120 @@ export const ProductsPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Filters */}
+      {(showFilters || hasFilters) && (
+        <div className="mt-6 bg-white p-4 rounded-lg border border-gray-200">
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
+            <form onSubmit={handleSearch} className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Search
+              </label>
+              <div className="relative">
+                <MagnifyingGlassIcon className="h-5 w-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="Name or description, press Enter..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+                />
+              </div>
+            </form>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Category
+              </label>
+              <select
+                value={query.category || ''}
+                onChange={(e) => updateQuery({ category: e.target.value || undefined })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+              >
+                <option value="">All Categories</option>
+                {getCategoryOptions(categories).map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Status
+              </label>
+              <select
+                value={query.status || ''}
+                onChange={(e) => updateQuery({ status: (e.target.value as ProductStatus) || undefined })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+              >
+                <option value="">All Statuses</option>
+                {PRODUCT_STATUSES.map(status => (
+                  <option key={status} value={status}>
+                    {PRODUCT_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Stock
+              </label>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="number"
+                  min="0"
+                  placeholder="Min"
+                  value={query.minStock ?? ''}
+                  onChange={(e) => updateQuery({ minStock: parseInteger(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                  type="number"
+                  min="0"
+                  placeholder="Max"
+                  value={query.maxStock ?? ''}
+                  onChange={(e) => updateQuery({ maxStock: parseInteger(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+                />
+              </div>
+              <select
+                value={query.stockAlert || ''}
+                onChange={(e) => updateQuery({ stockAlert: (e.target.value as StockAlert) || undefined })}
+                className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+              >
+                <option value="">Any stock level</option>
+                <option value="low">Low or out of stock</option>
+                <option value="out">Out of stock</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Image
+              </label>
+              <select
+                value={query.hasImage === undefined ? '' : String(query.hasImage)}
+                onChange={(e) => updateQuery({ hasImage: e.target.value === '' ? undefined : e.target.value === 'true' })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-iguana-500 focus:border-iguana-500"
+              >
+                <option value="">Any</option>
+                <option value="true">With image</option>
+                <option value="false">Without image</option>
+              </select>
+            </div>
+          </div>
+          {hasFilters && (
+            <div className="mt-4 flex justify-end">
+              <button
+                onClick={clearFilters}
+                className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+              >
+                Clear Filters
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {error && (
         <div className="mt-4 rounded-md bg-red-50 p-4">
           <div className="text-sm text-red-700">{error}</div>
@@ -102,22 +407,20 @@ export const ProductsPage: React.FC = () => {
       <div className="mt-8 flex flex-col">
         <div className="-my-2 -mx-4 overflow-x-auto sm:-mx-6 lg:-mx-8">
           <div className="inline-block min-w-full py-2 align-middle md:px-6 lg:px-8">
-            <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+            <div className={`overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg ${isLoading ? 'opacity-60' : ''}`}>
               <table className="min-w-full divide-y divide-gray-300">
                 <thead className="bg-gray-50">
                   <tr>
-                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
-                      Product
-                    </th>
+                    {renderSortableHeader('Product', 'name')}
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
                       Category
                     </th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
-                      Price
-                    </th>
-                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
-                      Stock
+                      Status
                     </th>
+                    {renderSortableHeader('Price', 'price')}
+                    {renderSortableHeader('Stock', 'stock_quantity')}
+                    {renderSortableHeader('Updated', 'updated_at')}
                     <th scope="col" className="relative px-6 py-3">
                       <span className="sr-only">Actions</span>
                     </th>
@@ -125,15 +428,10 @@ export const ProductsPage: React.FC = () => {
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {products.map((productResponse) => {
-                    // Safety check to prevent undefined errors
-                    if (!productResponse || !productResponse.product) {
-                      console.warn('Invalid product response:', productResponse);
-                      return null;
-                    }
-                    
                     const product = productResponse.product;
+                    const stockLevel = getStockLevel(product);
                     return (
-                      <tr key={product.id}>
+                      <tr key={product.id} className={stockLevelRowClasses[stockLevel]}>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="flex items-center">
                             <div className="flex-shrink-0 h-12 w-12">
@@ -160,15 +458,41 @@ export const ProductsPage: React.FC = () => {
                           </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-iguana-100 text-iguana-800 capitalize">
-                            {product.category || 'Unknown'}
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-iguana-100 text-iguana-800">
+                            {product.category ? getCategoryName(categories, product.category) : 'Unknown'}
                           </span>
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <ProductStatusBadge product={product} />
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          ${(product.price || 0).toFixed(2)}
+                          {renderPrice(product)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {product.stock_quantity || 0}
+                          {getTotalStock(product)}
+                          {stockLevel !== 'ok' && (
+                            <span
+                              className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                                stockLevel === 'out' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                              }`}
+                              title={`Low-stock threshold: ${product.effective_low_stock_threshold}`}
+                            >
+                              {stockLevel === 'out' ? 'Out of stock' : 'Low stock'}
+                            </span>
+                          )}
+                          {hasVariants(product) && (
+                            <div className="text-xs text-gray-500">
+                              {product.variants!.length} variants
+                              {getOutOfStockVariants(product).length > 0 && (
+                                <span className="text-red-600">
+                                  {' '}· {getOutOfStockVariants(product).length} out of stock
+                                </span>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {new Date(product.updated_at).toLocaleDateString()}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                           <div className="flex items-center space-x-2">
@@ -184,6 +508,13 @@ export const ProductsPage: React.FC = () => {
                             >
                               <PencilIcon className="h-4 w-4" />
                             </Link>
+                            <button
+                              onClick={() => setDuplicating(product)}
+                              className="text-iguana-600 hover:text-iguana-900"
+                              title="Duplicate"
+                            >
+                              <DocumentDuplicateIcon className="h-4 w-4" />
+                            </button>
                             <button
                               onClick={() => handleDeleteProduct(product.id)}
                               className="text-red-600 hover:text-red-900"
@@ -197,6 +528,15 @@ export const ProductsPage: React.FC = () => {
                   })}
                 </tbody>
               </table>
+              {result && result.total > 0 && (
+                <Pagination
+                  page={query.page}
+                  pageSize={query.pageSize}
+                  total={result.total}
+                  onPageChange={(page) => updateQuery({ page })}
+                  onPageSizeChange={(pageSize) => updateQuery({ pageSize })}
+                />
+              )}
             </div>
           </div>
         </div>
@@ -205,21 +545,49 @@ export const ProductsPage: React.FC = () => {
       {products.length === 0 && !isLoading && (
         <div className="text-center py-12">
           <CubeIcon className="mx-auto h-12 w-12 text-gray-400" />
-          <h3 className="mt-2 text-sm font-medium text-gray-900">No products</h3>
-          <p className="mt-1 text-sm text-gray-500">
-            Get started by creating a new product.
-          </p>
-          <div className="mt-6">
-            <Link
-              to="/products/new"
-              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-iguana-600 hover:bg-iguana-700"
-            >
-              <PlusIcon className="h-4 w-4 mr-2" />
-              New Product
-            </Link>
-          </div>
+          {hasFilters ? (
+            <>
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No matching products</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Try adjusting your filters to see more products.
+              </p>
+            </>
+          ) : (
+            <>
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No products</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Get started by creating a new product.
+              </p>
+              <div className="mt-6">
+                <Link
+                  to="/products/new"
+                  className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-iguana-600 hover:bg-iguana-700"
+                >
+                  <PlusIcon className="h-4 w-4 mr-2" />
+                  New Product
+                </Link>
+              </div>
+            </>
+          )}
         </div>
       )}
+
+      <ExportDialog
+        isOpen={showExport}
+        title="Export Products"
+        columns={PRODUCT_EXPORT_COLUMNS}
+        hasFilters={hasFilters}
+        onClose={() => setShowExport(false)}
+        onExport={handleExport}
+      />
+
+      {duplicating && (
+        <DuplicateProductDialog
+          isOpen
+          product={duplicating}
+          onClose={() => setDuplicating(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
+import { useAdminApi } from '../services/api';
 import { User, UserRole } from '../types/user';
 import {
   ArrowLeftIcon,
@@ -16,7 +16,7 @@ import { ConfirmationDialog } from '../components/ui/ConfirmationDialog';
 
 const UserDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
-  const { apiRequest } = useAuth();
+  const api = useAdminApi();
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
@@ -39,7 +39,7 @@ const UserDetailPage: React.FC = () => {
     try {
       setLoading(true);
       setError(null);
-      const response = await apiRequest(`/admin/users/${userId}`);
+      const response = await api.users.get(userId);
       setUser(response);
       setEditForm({
         name: response.name,
@@ -58,13 +58,7 @@ const UserDetailPage: React.FC = () => {
     if (!user || !id) return;
 
     try {
-      const updatedUser = await apiRequest(`/admin/users/${id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(editForm),
-      });
+      const updatedUser = await api.users.update(id, editForm);
       setUser(updatedUser);
       setIsEditing(false);
     } catch (err) {
@@ -77,13 +71,7 @@ const UserDetailPage: React.FC = () => {
     if (!user || !id) return;
 
     try {
-      await apiRequest(`/admin/users/${id}/role`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ role: roleUpdate }),
-      });
+      await api.users.updateRole(id, roleUpdate);
       setUser({ ...user, role: roleUpdate });
     } catch (err) {
       setError('Failed to update user role');
@@ -95,9 +83,7 @@ const UserDetailPage: React.FC = () => {
     if (!user || !id) return;
 
     try {
-      await apiRequest(`/admin/users/${id}`, {
-        method: 'DELETE',
-      });
+      await api.users.remove(id);
       navigate('/users');
     } catch (err) {
       setError('Failed to delete user');
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
+import { useAdminApi } from '../services/api';
+import { ExportRequest, buildExportTable, downloadExport, selectColumns } from '../services/export';
+import { USER_EXPORT_COLUMNS } from '../services/exportColumns';
 import { User, UserRole } from '../types/user';
 import {
   MagnifyingGlassIcon,
@@ -10,12 +12,14 @@ import {
   EyeIcon,
   ShieldCheckIcon,
   UserIcon,
+  ArrowDownTrayIcon,
 } from '@heroicons/react/24/outline';
 import { LoadingSpinner } from '../components/ui/LoadingSpinner';
 import { ConfirmationDialog } from '../components/ui/ConfirmationDialog';
+import { ExportDialog } from '../components/ui/ExportDialog';
 
 const UsersPage: React.FC = () => {
-  const { apiRequest } = useAuth();
+  const api = useAdminApi();
   const navigate = useNavigate();
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
@@ -26,6 +30,7 @@ const UsersPage: React.FC = () => {
     isOpen: boolean;
     user: User | null;
   }>({ isOpen: false, user: null });
+  const [showExport, setShowExport] = useState(false);
 
   useEffect(() => {
     fetchUsers();
@@ -35,8 +40,7 @@ const UsersPage: React.FC = () => {
     try {
       setLoading(true);
       setError(null);
-      const response = await apiRequest('/admin/users');
-      setUsers(response);
+      setUsers(await api.users.list());
     } catch (err) {
       setError('Failed to fetch users');
       console.error('Error fetching users:', err);
@@ -47,9 +51,7 @@ const UsersPage: React.FC = () => {
 
   const handleDeleteUser = async (user: User) => {
     try {
-      await apiRequest(`/admin/users/${user.id}`, {
-        method: 'DELETE',
-      });
+      await api.users.remove(user.id);
       setUsers(users.filter(u => u.id !== user.id));
       setDeleteDialog({ isOpen: false, user: null });
     } catch (err) {
@@ -60,13 +62,7 @@ const UsersPage: React.FC = () => {
 
   const handleUpdateRole = async (userId: string, newRole: UserRole) => {
     try {
-      await apiRequest(`/admin/users/${userId}/role`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ role: newRole }),
-      });
+      await api.users.updateRole(userId, newRole);
       
       setUsers(users.map(user => 
         user.id === userId ? { ...user, role: newRole } : user
@@ -88,6 +84,12 @@ const UsersPage: React.FC = () => {
     return matchesSearch && matchesRole;
   });
 
+  // Users are loaded in full, so both scopes export from memory
+  const handleExport = async ({ scope, format, columnIds }: ExportRequest) => {
+    const columns = selectColumns(USER_EXPORT_COLUMNS, columnIds);
+    await downloadExport(buildExportTable(scope === 'all' ? users : filteredUsers, columns), 'users', format);
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -128,7 +130,15 @@ const UsersPage: React.FC = () => {
             Manage user accounts, roles, and permissions
           </p>
         </div>
-        <div className="mt-4 flex md:mt-0 md:ml-4">
+        <div className="mt-4 flex space-x-3 md:mt-0 md:ml-4">
+          <button
+            type="button"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            onClick={() => setShowExport(true)}
+          >
+            <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+            Export
+          </button>
           <button
             type="button"
             className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -376,6 +386,15 @@ const UsersPage: React.FC = () => {
         cancelText="Cancel"
         confirmButtonClass="bg-red-600 hover:bg-red-700 focus:ring-red-500"
       />
+
+      <ExportDialog
+        isOpen={showExport}
+        title="Export Users"
+        columns={USER_EXPORT_COLUMNS}
+        hasFilters={Boolean(searchTerm) || roleFilter !== 'all'}
+        onClose={() => setShowExport(false)}
+        onExport={handleExport}
+      />
     </div>
   );
 };
@@ -1,4 +1,522 @@
-// This file is deprecated - API calls are now handled by the AuthContext
-// All API methods have been moved to the auth context for better integration
+import { useMemo } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  Category,
+  CategoryInput,
+  Product,
+  ProductImage,
+  ProductImageDetailsInput,
+  ProductInput,
+  ProductUpdateInput,
+  ProductDetailResponse,
+  ProductListResponse,
+  ProductOption,
+  ProductPublicationUpdate,
+  ProductQuery,
+  ProductSales,
+  ProductTemplate,
+  ProductTemplateInput,
+  ProductVariant,
+  Paginated,
+  FocalPoint,
+  InventoryEntry,
+  MediaImage,
+  MediaQuery,
+  MultipartUploadTarget,
+  StockAdjustmentInput,
+  UploadTarget,
+  UploadedPart,
+} from '../types';
+import {
+  NoteVisibility,
+  OrderEvent,
+  OrderEventType,
+  OrderNoteInput,
+  OrderSummary,
+  OrderItemSummary,
+  OrderFilters,
+  OrderQuery,
+  OrderStatusUpdate,
+  Refund,
+  RefundInput,
+  Shipment,
+  ShipmentInput,
+} from '../types/order';
+import { ORDER_STATUSES } from './orderLifecycle';
+import { VARIANT_AXES } from './productVariants';
+import { PRODUCT_STATUSES } from './productPublication';
+import { INVENTORY_ENTRY_TYPES } from './inventory';
+import { DEFAULT_LOW_STOCK_THRESHOLD } from './stockLevels';
+import { User, UserRole, UserUpdate } from '../types/user';
+import {
+  Parser,
+  array,
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+} from './validation';
 
-export {};
+// Typed admin API client. All requests go through AuthService.apiRequest so
+// cookies and the CSRF header are handled in one place; every response is
+// validated before it reaches a page.
+
+export type ApiRequest = <T = any>(endpoint: string, options?: RequestInit) => Promise<T>;
+
+type QueryValue = string | number | boolean | undefined | null;
+
+export const withQuery = (endpoint: string, params: Record<string, QueryValue>): string => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      query.set(key, String(value));
+    }
+  });
+  const queryString = query.toString();
+  return queryString ? `${endpoint}?${queryString}` : endpoint;
+};
+
+const USER_ROLES: UserRole[] = ['admin', 'customer'];
+const ORDER_EVENT_TYPES: OrderEventType[] = ['created', 'status_changed', 'note', 'shipment', 'refund', 'email_sent'];
+const NOTE_VISIBILITIES: NoteVisibility[] = ['internal', 'customer'];
+
+export const paginated = <T>(parser: Parser<T>): Parser<Paginated<T>> =>
+  object<Paginated<T>>({
+    items: array(parser),
+    total: number,
+    page: number,
+    page_size: number,
+  });
+
+// Variant options arrive as an object keyed by axis, e.g. { size: "7", metal: "Gold" }
+const parseVariantOptions: Parser<ProductVariant['options']> = (value, path) => {
+  const options = record(value, path);
+  return Object.fromEntries(
+    VARIANT_AXES.filter(axis => options[axis] !== undefined && options[axis] !== null).map(axis => [
+      axis,
+      string(options[axis], `${path}.${axis}`),
+    ])
+  );
+};
+
+export const parseProductVariant = object<ProductVariant>({
+  id: optional(string),
+  options: parseVariantOptions,
+  sku: string,
+  price: optional(number),
+  stock_quantity: number,
+  image_id: optional(string),
+});
+
+const parseProductFields = object<
+  Omit<Product, 'effective_low_stock_threshold'> & { effective_low_stock_threshold?: number }
+>({
+  id: string,
+  name: string,
+  description: string,
+  price: number,
+  category: string,
+  stock_quantity: number,
+  sku: optional(string),
+  options: optional(array(object<ProductOption>({ axis: oneOf(VARIANT_AXES), values: array(string) }))),
+  variants: optional(array(parseProductVariant)),
+  // Products created before publication statuses existed are live
+  status: (value, path) => optional(oneOf(PRODUCT_STATUSES))(value, path) || 'published',
+  low_stock_threshold: optional(number),
+  effective_low_stock_threshold: optional(number),
+  publish_at: optional(string),
+  created_at: string,
+  updated_at: string,
+});
+
+// Responses without the resolved threshold fall back to the product's own, then the store default
+export const parseProduct: Parser<Product> = (value, path) => {
+  const product = parseProductFields(value, path);
+  return {
+    ...product,
+    effective_low_stock_threshold:
+      product.effective_low_stock_threshold ?? product.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD,
+  };
+};
+
+const parseFocalPoint = object<FocalPoint>({ x: number, y: number });
+
+export const parseProductImage = object<ProductImage>({
+  id: string,
+  product_id: string,
+  image_url: string,
+  is_main: boolean,
+  display_order: number,
+  content_type: optional(string),
+  file_size: optional(number),
+  focal_point: optional(parseFocalPoint),
+  alt_text: optional(string),
+  caption: optional(string),
+  created_at: string,
+  updated_at: string,
+});
+
+export const parseMediaImage = object<MediaImage>({
+  id: string,
+  product_id: optional(string),
+  product_name: optional(string),
+  product_has_main_image: optional(boolean),
+  image_url: string,
+  is_main: boolean,
+  display_order: number,
+  content_type: optional(string),
+  file_size: optional(number),
+  focal_point: optional(parseFocalPoint),
+  alt_text: optional(string),
+  caption: optional(string),
+  created_at: string,
+  updated_at: string,
+});
+
+export const parseProductDetail = object<ProductDetailResponse>({
+  product: parseProduct,
+  images: (value, path) => optional(array(parseProductImage))(value, path) || [],
+});
+
+export const parseInventoryEntry = object<InventoryEntry>({
+  id: string,
+  product_id: string,
+  variant_sku: optional(string),
+  type: oneOf(INVENTORY_ENTRY_TYPES),
+  delta: number,
+  stock_after: number,
+  reason: string,
+  admin: optional(object<{ id: string; name: string }>({ id: string, name: string })),
+  created_at: string,
+});
+
+export const parseProductSales = object<ProductSales>({
+  order_count: number,
+  units_sold: number,
+  revenue: number,
+});
+
+// The public product list returns products with the primary image URL inlined.
+export const parseProductListItem: Parser<ProductListResponse> = (value, path) => ({
+  product: parseProduct(value, path),
+  primary_image_url: optional(string)(record(value, path).primary_image_url, `${path}.primary_image_url`),
+});
+
+export const parseOrderItemSummary = object<OrderItemSummary>({
+  id: string,
+  product_id: string,
+  product_name: string,
+  price: number,
+  quantity: number,
+  subtotal: number,
+});
+
+export const parseOrderSummary = object<OrderSummary>({
+  id: string,
+  user_id: string,
+  total_amount: number,
+  status: oneOf(ORDER_STATUSES),
+  shipping_name: string,
+  shipping_address: object<OrderSummary['shipping_address']>({
+    address_line1: string,
+    address_line2: optional(string),
+    city: string,
+    state: string,
+    postal_code: string,
+    country: string,
+    email: string,
+    phone: string,
+  }),
+  created_at: string,
+  items: array(parseOrderItemSummary),
+  refunded_amount: optional(number),
+});
+
+export const parseShipment = object<Shipment>({
+  id: string,
+  order_id: string,
+  carrier: string,
+  tracking_number: string,
+  status: oneOf(['in_transit', 'delivered'] as const),
+  shipped_at: string,
+  delivered_at: optional(string),
+  items: array(object({ order_item_id: string, quantity: number })),
+  created_at: string,
+});
+
+export const parseRefund = object<Refund>({
+  id: string,
+  order_id: string,
+  amount: number,
+  reason: string,
+  restock: boolean,
+  items: array(object({ order_item_id: string, quantity: number })),
+  created_at: string,
+});
+
+export const parseOrderEvent = object<OrderEvent>({
+  id: string,
+  order_id: string,
+  type: oneOf(ORDER_EVENT_TYPES),
+  message: string,
+  from_status: optional(oneOf(ORDER_STATUSES)),
+  to_status: optional(oneOf(ORDER_STATUSES)),
+  visibility: optional(oneOf(NOTE_VISIBILITIES)),
+  actor: optional(object({ id: string, name: string })),
+  created_at: string,
+});
+
+export const parseCategory = object<Category>({
+  id: string,
+  slug: string,
+  name: string,
+  parent_id: optional(string),
+  position: number,
+  archived: boolean,
+  low_stock_threshold: optional(number),
+  inherited_low_stock_threshold: number,
+  product_count: number,
+  created_at: string,
+  updated_at: string,
+});
+
+export const parseProductTemplate = object<ProductTemplate>({
+  id: string,
+  name: string,
+  category: string,
+  description: string,
+  care_instructions: string,
+  created_at: string,
+  updated_at: string,
+});
+
+export const parseUser = object<User>({
+  id: string,
+  googleid: string,
+  email: string,
+  name: string,
+  role: oneOf(USER_ROLES),
+  created_at: string,
+  updated_at: string,
+});
+
+// The local backend and the S3 presigner name their fields differently.
+const parseUploadTarget: Parser<UploadTarget> = (value, path) => {
+  const source = record(value, path);
+  return {
+    uploadUrl: string(source.uploadUrl ?? source.upload_url, `${path}.upload_url`),
+    imageKey: string(source.imageKey ?? source.key, `${path}.key`),
+  };
+};
+
+const parseMultipartUploadTarget = object<MultipartUploadTarget>({
+  uploadId: string,
+  imageKey: string,
+  partUrls: array(string),
+});
+
+const jsonBody = (method: string, body?: unknown): RequestInit => ({
+  method,
+  ...(body !== undefined && { body: JSON.stringify(body) }),
+});
+
+export const createAdminApi = (request: ApiRequest) => {
+  const call = async <T>(parser: Parser<T>, endpoint: string, options?: RequestInit): Promise<T> => {
+    const data = await request<unknown>(endpoint, options);
+    return parser(data, endpoint);
+  };
+
+  const send = async (endpoint: string, options: RequestInit): Promise<void> => {
+    await request<unknown>(endpoint, options);
+  };
+
+  return {
+    products: {
+      list: () => call(array(parseProductListItem), '/products'),
+      search: (query: ProductQuery) =>
+        call(
+          paginated(parseProductListItem),
+          withQuery('/admin/products', {
+            page: query.page,
+            page_size: query.pageSize,
+            sort: query.sort,
+            order: query.direction,
+            search: query.search,
+            category: query.category,
+            status: query.status,
+            stock_alert: query.stockAlert,
+            min_stock: query.minStock,
+            max_stock: query.maxStock,
+            has_image: query.hasImage,
+          })
+        ),
+      // The public endpoint hides unpublished products, which staff still need to open
+      get: (id: string) => call(parseProductDetail, `/admin/products/${id}`),
+      sales: (id: string) => call(parseProductSales, `/admin/products/${id}/sales`),
+      // New products start as drafts so they stay hidden until they have images
+      create: (input: ProductInput) =>
+        call(parseProduct, '/admin/products', jsonBody('POST', { ...input, status: 'draft' })),
+      update: (id: string, input: ProductUpdateInput) =>
+        send(`/admin/products/${id}`, jsonBody('PUT', input)),
+      updateStatus: (id: string, update: ProductPublicationUpdate) =>
+        call(parseProduct, `/admin/products/${id}/status`, jsonBody('PUT', update)),
+      remove: (id: string) => send(`/admin/products/${id}`, { method: 'DELETE' }),
+    },
+    // Staff change stock by recording ledger entries rather than editing the product
+    inventory: {
+      list: (productId: string) => call(array(parseInventoryEntry), `/admin/products/${productId}/inventory`),
+      adjust: (productId: string, input: StockAdjustmentInput) =>
+        call(parseInventoryEntry, `/admin/products/${productId}/inventory`, jsonBody('POST', input)),
+    },
+    images: {
+      list: (productId: string) => call(array(parseProductImage), `/admin/products/${productId}/images`),
+      generateUploadUrl: (productId: string, file: { filename: string; contentType: string }) =>
+        call(
+          parseUploadTarget,
+          `/admin/products/${productId}/images/generate-upload-url`,
+          jsonBody('POST', file)
+        ),
+      generatePresignedUploadUrl: (productId: string, params: { contentType: string; type: 'main' | 'gallery' }) =>
+        call(
+          parseUploadTarget,
+          withQuery(`/admin/products/${productId}/images/generate-upload-url`, {
+            content_type: params.contentType,
+            product_id: productId,
+            type: params.type,
+          })
+        ),
+      createMultipartUpload: (productId: string, file: { filename: string; contentType: string; partCount: number }) =>
+        call(
+          parseMultipartUploadTarget,
+          `/admin/products/${productId}/images/multipart`,
+          jsonBody('POST', file)
+        ),
+      completeMultipartUpload: (
+        productId: string,
+        upload: { uploadId: string; imageKey: string; parts: UploadedPart[] }
+      ) => send(`/admin/products/${productId}/images/multipart/complete`, jsonBody('POST', upload)),
+      // Lets S3 discard the parts already stored for an upload that failed
+      abortMultipartUpload: (productId: string, upload: { uploadId: string; imageKey: string }) =>
+        send(`/admin/products/${productId}/images/multipart/abort`, jsonBody('POST', upload)),
+      confirm: (productId: string, upload: { imageKey: string; isMain: boolean }) =>
+        call(parseProductImage, `/admin/products/${productId}/images/confirm`, jsonBody('POST', upload)),
+      setMain: (productId: string, imageId: string) =>
+        send(`/admin/products/${productId}/images/${imageId}`, { method: 'PUT' }),
+      setFocalPoint: (productId: string, imageId: string, focalPoint: FocalPoint) =>
+        call(parseProductImage, `/admin/products/${productId}/images/${imageId}/focal-point`, jsonBody('PUT', focalPoint)),
+      updateDetails: (productId: string, imageId: string, details: ProductImageDetailsInput) =>
+        call(parseProductImage, `/admin/products/${productId}/images/${imageId}`, jsonBody('PATCH', details)),
+      remove: (productId: string, imageId: string) =>
+        send(`/admin/products/${productId}/images/${imageId}`, { method: 'DELETE' }),
+      reorder: (productId: string, imageIds: string[]) =>
+        send(`/admin/products/${productId}/images/reorder`, jsonBody('PUT', imageIds)),
+    },
+    orders: {
+      list: (filters: Pick<OrderFilters, 'status'> = {}) =>
+        call(array(parseOrderSummary), withQuery('/admin/orders', { status: filters.status })),
+      // Passing page parameters switches the endpoint to its paginated response.
+      search: (query: OrderQuery) =>
+        call(
+          paginated(parseOrderSummary),
+          withQuery('/admin/orders', {
+            page: query.page,
+            page_size: query.pageSize,
+            status: query.status,
+            search: query.search,
+            date_from: query.dateFrom,
+            date_to: query.dateTo,
+            user_id: query.userId,
+            product_id: query.productId,
+          })
+        ),
+      get: (id: string) => call(parseOrderSummary, `/orders/${id}`),
+      updateStatus: (id: string, { status, ...details }: OrderStatusUpdate) =>
+        send(
+          withQuery(`/admin/orders/${id}/status`, { status }),
+          jsonBody('PUT', Object.keys(details).length > 0 ? details : undefined)
+        ),
+      shipments: {
+        list: (orderId: string) => call(array(parseShipment), `/admin/orders/${orderId}/shipments`),
+        create: (orderId: string, input: ShipmentInput) =>
+          call(parseShipment, `/admin/orders/${orderId}/shipments`, jsonBody('POST', input)),
+        markDelivered: (orderId: string, shipmentId: string) =>
+          call(parseShipment, `/admin/orders/${orderId}/shipments/${shipmentId}/delivered`, { method: 'PUT' }),
+      },
+      // Creating a refund also moves the order to refunded/partially_refunded
+      // and, when restock is set, returns the items to inventory.
+      refunds: {
+        list: (orderId: string) => call(array(parseRefund), `/admin/orders/${orderId}/refunds`),
+        create: (orderId: string, input: RefundInput) =>
+          call(parseRefund, `/admin/orders/${orderId}/refunds`, jsonBody('POST', input)),
+      },
+      // Status changes, shipments, refunds and emails are recorded by the backend;
+      // notes are the only events staff add directly.
+      events: {
+        list: (orderId: string) => call(array(parseOrderEvent), `/admin/orders/${orderId}/events`),
+        addNote: (orderId: string, input: OrderNoteInput) =>
+          call(parseOrderEvent, `/admin/orders/${orderId}/notes`, jsonBody('POST', input)),
+      },
+    },
+    // The backend refuses to delete categories that still have products.
+    categories: {
+      list: (options: { includeArchived?: boolean } = {}) =>
+        call(
+          array(parseCategory),
+          withQuery('/admin/categories', { include_archived: options.includeArchived ? 'true' : undefined })
+        ),
+      create: (input: CategoryInput) => call(parseCategory, '/admin/categories', jsonBody('POST', input)),
+      update: (id: string, input: CategoryInput) =>
+        call(parseCategory, `/admin/categories/${id}`, jsonBody('PUT', input)),
+      setArchived: (id: string, archived: boolean) =>
+        call(parseCategory, `/admin/categories/${id}/archive`, jsonBody('PUT', { archived })),
+      // Sets the order of the given sibling categories
+      reorder: (categoryIds: string[]) =>
+        send('/admin/categories/reorder', jsonBody('PUT', categoryIds)),
+      remove: (id: string) => send(`/admin/categories/${id}`, { method: 'DELETE' }),
+    },
+    // Every uploaded image, including orphans left behind by deleted products
+    media: {
+      search: (query: MediaQuery) =>
+        call(
+          paginated(parseMediaImage),
+          withQuery('/admin/images', {
+            page: query.page,
+            page_size: query.pageSize,
+            filter: query.filter,
+            search: query.search,
+          })
+        ),
+      // Moves the image to another product, where it is added to the end of the gallery
+      reassign: (imageId: string, productId: string) =>
+        call(parseMediaImage, `/admin/images/${imageId}/product`, jsonBody('PUT', { product_id: productId })),
+      remove: (imageId: string) => send(`/admin/images/${imageId}`, { method: 'DELETE' }),
+    },
+    productTemplates: {
+      list: () => call(array(parseProductTemplate), '/admin/product-templates'),
+      create: (input: ProductTemplateInput) =>
+        call(parseProductTemplate, '/admin/product-templates', jsonBody('POST', input)),
+      update: (id: string, input: ProductTemplateInput) =>
+        call(parseProductTemplate, `/admin/product-templates/${id}`, jsonBody('PUT', input)),
+      remove: (id: string) => send(`/admin/product-templates/${id}`, { method: 'DELETE' }),
+    },
+    users: {
+      list: () => call(array(parseUser), '/admin/users'),
+      get: (id: string) => call(parseUser, `/admin/users/${id}`),
+      create: (input: UserUpdate & { googleid: string; role: UserRole }) =>
+        call(parseUser, '/admin/users', jsonBody('POST', input)),
+      update: (id: string, input: UserUpdate) => call(parseUser, `/admin/users/${id}`, jsonBody('PUT', input)),
+      updateRole: (id: string, role: UserRole) => send(`/admin/users/${id}/role`, jsonBody('PUT', { role })),
+      remove: (id: string) => send(`/admin/users/${id}`, { method: 'DELETE' }),
+    },
+  };
+};
+
+export type AdminApi = ReturnType<typeof createAdminApi>;
+
+export const useAdminApi = (): AdminApi => {
+  const { apiRequest } = useAuth();
+  return useMemo(() => createAdminApi(apiRequest), [apiRequest]);
+};
@@ -0,0 +1,34 @@
+// Runs an action over many items one at a time, collecting a result per item
+// instead of stopping at the first failure. Sequential on purpose: bulk jobs
+// should not flood the API, and progress stays meaningful.
+
+export interface BulkProgress {
+  completed: number;
+  total: number;
+}
+
+export interface BulkResult<T> {
+  item: T;
+  error?: string;
+}
+
+export const runBulkAction = async <T>(
+  items: T[],
+  action: (item: T) => Promise<void>,
+  onProgress?: (progress: BulkProgress) => void
+): Promise<BulkResult<T>[]> => {
+  const results: BulkResult<T>[] = [];
+  onProgress?.({ completed: 0, total: items.length });
+
+  for (const item of items) {
+    try {
+      await action(item);
+      results.push({ item });
+    } catch (err: any) {
+      results.push({ item, error: err?.message || 'Unknown error' });
+    }
+    onProgress?.({ completed: results.length, total: items.length });
+  }
+
+  return results;
+};
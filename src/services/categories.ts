@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Category } from '../types';
+import { useAdminApi } from './api';
+
+// Categories form a tree through parent_id and are ordered by position among
+// their siblings. Product forms and filters show them flattened in tree order.
+
+export interface CategoryNode extends Category {
+  depth: number;
+  children: CategoryNode[];
+}
+
+const byPosition = (a: Category, b: Category) => a.position - b.position || a.name.localeCompare(b.name);
+
+export const buildCategoryTree = (categories: Category[]): CategoryNode[] => {
+  const ids = new Set(categories.map(category => category.id));
+  const build = (parentId: string | undefined, depth: number): CategoryNode[] =>
+    categories
+      // Children of a missing parent (e.g. filtered out) are shown at the top level
+      .filter(category =>
+        parentId === undefined
+          ? !category.parent_id || !ids.has(category.parent_id)
+          : category.parent_id === parentId
+      )
+      .sort(byPosition)
+      .map(category => ({ ...category, depth, children: build(category.id, depth + 1) }));
+  return build(undefined, 0);
+};
+
+export const flattenCategoryTree = (nodes: CategoryNode[]): CategoryNode[] =>
+  nodes.flatMap(node => [node, ...flattenCategoryTree(node.children)]);
+
+// The category and every category nested below it
+export const getDescendantIds = (categories: Category[], id: string): string[] => {
+  const children = categories.filter(category => category.parent_id === id);
+  return [id, ...children.flatMap(child => getDescendantIds(categories, child.id))];
+};
+
+export const getCategoryName = (categories: Category[], slug: string): string =>
+  categories.find(category => category.slug === slug)?.name || slug;
+
+// Select options indented by depth, e.g. "Rings", "— Engagement"
+export const getCategoryOptions = (categories: Category[]): { value: string; label: string }[] =>
+  flattenCategoryTree(buildCategoryTree(categories)).map(node => ({
+    value: node.slug,
+    label: `${'— '.repeat(node.depth)}${node.name}`,
+  }));
+
+export const useCategories = (options: { includeArchived?: boolean } = {}) => {
+  const api = useAdminApi();
+  const { includeArchived = false } = options;
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const reload = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      setCategories(await api.categories.list({ includeArchived }));
+    } catch (err: any) {
+      console.error('Error fetching categories:', err);
+      setError(err.message || 'Failed to fetch categories');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api, includeArchived]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { categories, isLoading, error, reload, setCategories };
+};
@@ -0,0 +1,29 @@
+import { parseCsv, toCsv } from './csv';
+
+describe('csv', () => {
+  test('quoted cells keep commas, quotes and line breaks', () => {
+    expect(parseCsv('name,notes\r\n"Ring, gold","Says ""hi""\nagain"\r\n')).toEqual([
+      ['name', 'notes'],
+      ['Ring, gold', 'Says "hi"\nagain'],
+    ]);
+  });
+
+  test('a byte order mark and a missing final line break are accepted', () => {
+    expect(parseCsv('﻿sku,stock\nR-1,4')).toEqual([
+      ['sku', 'stock'],
+      ['R-1', '4'],
+    ]);
+  });
+
+  test('text that a spreadsheet would run as a formula is written as plain text', () => {
+    expect(toCsv([['=HYPERLINK("http://x")', '+1', '-2', '@SUM(A1)', '\tTab', '\rCR']])).toBe(
+      `"'=HYPERLINK(""http://x"")",'+1,'-2,'@SUM(A1),'\tTab,"'\rCR"`
+    );
+    expect(toCsv([[-2, 'Jane', 'a=b']])).toBe('-2,Jane,a=b');
+  });
+
+  test('what is written can be read back', () => {
+    const rows = [['a', 'b,c'], ['"quoted"', 'line\nbreak']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,65 @@
+import { Paginated } from '../types';
+import { CsvValue, downloadFile, neutralizeFormula, toCsv } from './csv';
+
+// Export subsystem shared by the orders, products and users pages. Pages pick
+// rows (selection, current filters or everything) and columns; this module
+// turns them into a CSV or XLSX file in the browser.
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportScope = 'selected' | 'filtered' | 'all';
+
+export interface ExportColumn<T> {
+  id: string;
+  label: string;
+  // Heading the column is listed under in the export dialog
+  group?: string;
+  value: (row: T) => CsvValue;
+}
+
+export interface ExportRequest {
+  scope: ExportScope;
+  format: ExportFormat;
+  columnIds: string[];
+}
+
+const EXPORT_PAGE_SIZE = 100;
+
+export const selectColumns = <T>(columns: ExportColumn<T>[], ids: string[]): ExportColumn<T>[] =>
+  columns.filter(column => ids.includes(column.id));
+
+export const buildExportTable = <T>(rows: T[], columns: ExportColumn<T>[]): CsvValue[][] => [
+  columns.map(column => column.label),
+  ...rows.map(row => columns.map(column => column.value(row))),
+];
+
+// Walks a paginated endpoint until every matching row has been loaded.
+export const fetchAllPages = async <T>(
+  fetchPage: (page: number, pageSize: number) => Promise<Paginated<T>>
+): Promise<T[]> => {
+  const items: T[] = [];
+  for (let page = 1; ; page++) {
+    const result = await fetchPage(page, EXPORT_PAGE_SIZE);
+    items.push(...result.items);
+    if (result.items.length === 0 || items.length >= result.total) {
+      return items;
+    }
+  }
+};
+
+// XLSX support is loaded on demand; it is large and only needed here.
+export const downloadExport = async (table: CsvValue[][], name: string, format: ExportFormat) => {
+  const filename = `${name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  if (format === 'csv') {
+    // BOM so Excel opens UTF-8 files with the right encoding
+    downloadFile(`\uFEFF${toCsv(table)}`, filename, 'text/csv;charset=utf-8');
+    return;
+  }
+
+  const ExcelJS = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  workbook.addWorksheet(name.slice(0, 31)).addRows(table.map(row => row.map(cell => neutralizeFormula(cell) ?? '')));
+  const data = await workbook.xlsx.writeBuffer();
+  downloadFile(data, filename, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+};
@@ -0,0 +1,103 @@
+import { ProductListResponse } from '../types';
+import { OrderItemSummary, OrderSummary } from '../types/order';
+import { User } from '../types/user';
+import { ExportColumn } from './export';
+import { ORDER_STATUS_LABELS } from './orderLifecycle';
+import { getOutOfStockVariants, getTotalStock, getVariantLabel } from './productVariants';
+import { ReorderItem } from './stockLevels';
+import { PRODUCT_STATUS_LABELS } from './productPublication';
+
+// Column definitions for each exportable page. Nested data is flattened: the
+// shipping address becomes one column per field, and choosing any line item
+// column switches the order export to one row per line item.
+
+export interface OrderExportRow {
+  order: OrderSummary;
+  item?: OrderItemSummary;
+}
+
+export const ORDER_EXPORT_COLUMNS: ExportColumn<OrderExportRow>[] = [
+  { id: 'id', label: 'Order ID', group: 'Order', value: ({ order }) => order.id },
+  { id: 'created_at', label: 'Placed', group: 'Order', value: ({ order }) => order.created_at },
+  { id: 'status', label: 'Status', group: 'Order', value: ({ order }) => ORDER_STATUS_LABELS[order.status] },
+  { id: 'total', label: 'Total', group: 'Order', value: ({ order }) => order.total_amount },
+  { id: 'refunded', label: 'Refunded', group: 'Order', value: ({ order }) => order.refunded_amount ?? 0 },
+  {
+    id: 'items_summary',
+    label: 'Items',
+    group: 'Order',
+    value: ({ order }) => order.items.map(item => `${item.quantity}x ${item.product_name}`).join('; '),
+  },
+  { id: 'customer_id', label: 'Customer ID', group: 'Customer', value: ({ order }) => order.user_id },
+  { id: 'shipping_name', label: 'Name', group: 'Customer', value: ({ order }) => order.shipping_name },
+  { id: 'email', label: 'Email', group: 'Customer', value: ({ order }) => order.shipping_address.email },
+  { id: 'phone', label: 'Phone', group: 'Customer', value: ({ order }) => order.shipping_address.phone },
+  { id: 'address_line1', label: 'Address Line 1', group: 'Shipping Address', value: ({ order }) => order.shipping_address.address_line1 },
+  { id: 'address_line2', label: 'Address Line 2', group: 'Shipping Address', value: ({ order }) => order.shipping_address.address_line2 },
+  { id: 'city', label: 'City', group: 'Shipping Address', value: ({ order }) => order.shipping_address.city },
+  { id: 'state', label: 'State', group: 'Shipping Address', value: ({ order }) => order.shipping_address.state },
+  { id: 'postal_code', label: 'Postal Code', group: 'Shipping Address', value: ({ order }) => order.shipping_address.postal_code },
+  { id: 'country', label: 'Country', group: 'Shipping Address', value: ({ order }) => order.shipping_address.country },
+  { id: 'item_product_id', label: 'Product ID', group: 'Line Items', value: ({ item }) => item?.product_id },
+  { id: 'item_name', label: 'Product', group: 'Line Items', value: ({ item }) => item?.product_name },
+  { id: 'item_quantity', label: 'Quantity', group: 'Line Items', value: ({ item }) => item?.quantity },
+  { id: 'item_price', label: 'Unit Price', group: 'Line Items', value: ({ item }) => item?.price },
+  { id: 'item_subtotal', label: 'Line Total', group: 'Line Items', value: ({ item }) => item?.subtotal },
+];
+
+export const DEFAULT_ORDER_COLUMN_IDS = ORDER_EXPORT_COLUMNS
+  .filter(column => column.group !== 'Line Items')
+  .map(column => column.id);
+
+export const toOrderExportRows = (orders: OrderSummary[], columnIds: string[]): OrderExportRow[] => {
+  const perItem = ORDER_EXPORT_COLUMNS.some(column => column.group === 'Line Items' && columnIds.includes(column.id));
+  return perItem
+    ? orders.flatMap(order => order.items.map(item => ({ order, item })))
+    : orders.map(order => ({ order }));
+};
+
+export const PRODUCT_EXPORT_COLUMNS: ExportColumn<ProductListResponse>[] = [
+  { id: 'id', label: 'Product ID', value: ({ product }) => product.id },
+  { id: 'sku', label: 'SKU', value: ({ product }) => product.sku },
+  { id: 'name', label: 'Name', value: ({ product }) => product.name },
+  { id: 'description', label: 'Description', value: ({ product }) => product.description },
+  { id: 'category', label: 'Category', value: ({ product }) => product.category },
+  { id: 'status', label: 'Status', value: ({ product }) => PRODUCT_STATUS_LABELS[product.status] },
+  { id: 'publish_at', label: 'Publish At', value: ({ product }) => product.publish_at },
+  { id: 'price', label: 'Price', value: ({ product }) => product.price },
+  { id: 'stock_quantity', label: 'Stock', value: ({ product }) => getTotalStock(product) },
+  {
+    id: 'variants',
+    label: 'Variants',
+    value: ({ product }) =>
+      (product.variants || []).map(variant => `${getVariantLabel(variant)} (${variant.sku}): ${variant.stock_quantity}`).join('; '),
+  },
+  { id: 'image_url', label: 'Main Image URL', value: ({ primary_image_url }) => primary_image_url },
+  { id: 'created_at', label: 'Created', value: ({ product }) => product.created_at },
+  { id: 'updated_at', label: 'Updated', value: ({ product }) => product.updated_at },
+];
+
+// Sent to suppliers, so only what is needed to place an order
+export const REORDER_EXPORT_COLUMNS: ExportColumn<ReorderItem>[] = [
+  { id: 'sku', label: 'SKU', value: ({ product }) => product.sku },
+  { id: 'name', label: 'Product', value: ({ product }) => product.name },
+  { id: 'category', label: 'Category', value: ({ product }) => product.category },
+  { id: 'stock', label: 'In Stock', value: ({ stock }) => stock },
+  { id: 'threshold', label: 'Low-Stock Threshold', value: ({ threshold }) => threshold },
+  { id: 'reorder_quantity', label: 'Reorder Quantity', value: ({ reorderQuantity }) => reorderQuantity },
+  {
+    id: 'out_of_stock_variants',
+    label: 'Out of Stock Variants',
+    value: ({ product }) =>
+      getOutOfStockVariants(product).map(variant => `${getVariantLabel(variant)} (${variant.sku})`).join('; '),
+  },
+];
+
+export const USER_EXPORT_COLUMNS: ExportColumn<User>[] = [
+  { id: 'id', label: 'User ID', value: user => user.id },
+  { id: 'name', label: 'Name', value: user => user.name },
+  { id: 'email', label: 'Email', value: user => user.email },
+  { id: 'role', label: 'Role', value: user => user.role },
+  { id: 'created_at', label: 'Joined', value: user => user.created_at },
+  { id: 'updated_at', label: 'Updated', value: user => user.updated_at },
+];
@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Blocker, useBlocker } from 'react-router-dom';
+
+// Keeps in-progress form edits from being lost: a guard that asks before
+// leaving a form with unsaved changes, and a draft copy of the form in
+// localStorage that can be restored when the form is opened again.
+
+const DRAFT_KEY_PREFIX = 'iguana-admin:draft:';
+const DRAFT_SAVE_DELAY = 500;
+
+export interface FormDraft<T> {
+  value: T;
+  savedAt: string;
+}
+
+export const productDraftKey = (productId?: string) => `product:${productId || 'new'}`;
+
+const readDraft = <T>(key: string): FormDraft<T> | null => {
+  try {
+    const stored = window.localStorage.getItem(DRAFT_KEY_PREFIX + key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (err) {
+    console.error('Error reading form draft:', err);
+    return null;
+  }
+};
+
+const writeDraft = (key: string, draft: FormDraft<unknown>) => {
+  try {
+    window.localStorage.setItem(DRAFT_KEY_PREFIX + key, JSON.stringify(draft));
+  } catch (err) {
+    // Storage can be full or disabled; the form keeps working without drafts
+    console.error('Error saving form draft:', err);
+  }
+};
+
+const removeDraft = (key: string) => {
+  try {
+    window.localStorage.removeItem(DRAFT_KEY_PREFIX + key);
+  } catch (err) {
+    console.error('Error removing form draft:', err);
+  }
+};
+
+export interface UnsavedChangesGuard {
+  blocker: Blocker;
+  // Call right before navigating away after a successful save
+  allowNavigation: () => void;
+}
+
+export const useUnsavedChangesGuard = (isDirty: boolean): UnsavedChangesGuard => {
+  const isAllowed = useRef(false);
+
+  const blocker = useBlocker(({ currentLocation, nextLocation }) =>
+    isDirty && !isAllowed.current && currentLocation.pathname !== nextLocation.pathname
+  );
+
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      if (isAllowed.current) return;
+      event.preventDefault();
+      event.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  const allowNavigation = useCallback(() => {
+    isAllowed.current = true;
+  }, []);
+
+  return { blocker, allowNavigation };
+};
+
+// Saves `value` under `key` shortly after each change while the form is dirty.
+// A draft found when the form opens is offered through `draft` and is not
+// overwritten until it has been restored or discarded.
+export const useFormDraft = <T>(key: string, value: T, isDirty: boolean) => {
+  const [draft, setDraft] = useState<FormDraft<T> | null>(null);
+  const serialized = JSON.stringify(value);
+
+  useEffect(() => {
+    setDraft(readDraft<T>(key));
+  }, [key]);
+
+  useEffect(() => {
+    if (!isDirty || draft) return;
+
+    const timer = setTimeout(() => {
+      writeDraft(key, { value: JSON.parse(serialized), savedAt: new Date().toISOString() });
+    }, DRAFT_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [key, serialized, isDirty, draft]);
+
+  const restoreDraft = useCallback(() => {
+    const restored = draft?.value ?? null;
+    setDraft(null);
+    return restored;
+  }, [draft]);
+
+  const discardDraft = useCallback(() => {
+    removeDraft(key);
+    setDraft(null);
+  }, [key]);
+
+  const clearDraft = useCallback(() => {
+    removeDraft(key);
+  }, [key]);
+
+  return { draft, restoreDraft, discardDraft, clearDraft };
+};
@@ -0,0 +1,32 @@
+import { ProductImage, ProductImageDetailsInput } from '../types';
+
+// Alt text is read out by screen readers and indexed by search engines, so
+// every image should describe the piece rather than say "Product image 2".
+
+// Screen readers commonly cut alt text off around this length
+export const ALT_TEXT_MAX_LENGTH = 125;
+export const CAPTION_MAX_LENGTH = 200;
+
+export interface AltTextContext {
+  productName: string;
+  // Display name of the product's category
+  category?: string;
+  // 1-based position of the image in the gallery
+  position: number;
+}
+
+export const suggestAltText = ({ productName, category, position }: AltTextContext) => {
+  const subject = [productName.trim() || 'Product', category?.trim()].filter(Boolean).join(', ');
+  return position > 1 ? `${subject}, view ${position}` : subject;
+};
+
+export const isMissingAltText = (image: Pick<ProductImage, 'alt_text'>) => !image.alt_text?.trim();
+
+// The alt text to render: what the admin entered, or the suggestion until they do
+export const getAltText = (image: Pick<ProductImage, 'alt_text'>, context: AltTextContext) =>
+  image.alt_text?.trim() || suggestAltText(context);
+
+export const getImageDetails = (image: ProductImage): ProductImageDetailsInput | null =>
+  image.alt_text || image.caption
+    ? { alt_text: image.alt_text || null, caption: image.caption || null }
+    : null;
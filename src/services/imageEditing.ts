@@ -0,0 +1,163 @@
+import { FocalPoint, ProductImage } from '../types';
+import { AdminApi } from './api';
+import { getImageDetails } from './imageAltText';
+import {
+  DEFAULT_IMAGE_PROCESSING,
+  ImageProcessingOptions,
+  canvasToFile,
+  createCanvas,
+  getTargetSize,
+} from './imageProcessing';
+import { uploadImageFile } from './imageUploads';
+
+// Crop, rotate and flip edits for product photos. Edits are applied in that
+// order: the image is rotated and flipped first, then cropped, so crop and
+// focal point positions always refer to the picture as the admin sees it.
+
+export type AspectRatio = 'original' | '1:1' | '4:5';
+export type Rotation = 0 | 90 | 180 | 270;
+
+export const ASPECT_RATIOS: { value: AspectRatio; label: string; ratio?: number }[] = [
+  { value: 'original', label: 'Original' },
+  { value: '1:1', label: 'Square 1:1', ratio: 1 },
+  { value: '4:5', label: 'Portrait 4:5', ratio: 4 / 5 },
+];
+
+export const MAX_ZOOM = 3;
+
+export interface ImageEdits {
+  rotation: Rotation;
+  flipX: boolean;
+  flipY: boolean;
+  aspect: AspectRatio;
+  // 1 keeps the largest crop that fits, higher values crop tighter
+  zoom: number;
+  // Centre of the crop as fractions of the rotated image
+  center: FocalPoint;
+  // Relative to the cropped result, which is what the storefront receives
+  focalPoint: FocalPoint;
+}
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const initialImageEdits = (focalPoint: FocalPoint = { x: 0.5, y: 0.5 }): ImageEdits => ({
+  rotation: 0,
+  flipX: false,
+  flipY: false,
+  aspect: 'original',
+  zoom: 1,
+  center: { x: 0.5, y: 0.5 },
+  focalPoint,
+});
+
+export const hasPixelEdits = (edits: ImageEdits) =>
+  edits.rotation !== 0 || edits.flipX || edits.flipY || edits.aspect !== 'original' || edits.zoom !== 1;
+
+export const clampFraction = (value: number) => Math.min(1, Math.max(0, value));
+
+export const rotate = (rotation: Rotation, quarterTurns: number): Rotation =>
+  ((((rotation + quarterTurns * 90) % 360) + 360) % 360) as Rotation;
+
+export const getRotatedSize = (width: number, height: number, rotation: Rotation) =>
+  rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+
+// The crop in pixels of the rotated image, kept inside its bounds
+export const getCropRect = (width: number, height: number, edits: ImageEdits): CropRect => {
+  const ratio = ASPECT_RATIOS.find(option => option.value === edits.aspect)?.ratio ?? width / height;
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, edits.zoom));
+  const cropWidth = Math.min(width, height * ratio) / zoom;
+  const cropHeight = cropWidth / ratio;
+
+  const x = Math.min(width - cropWidth, Math.max(0, edits.center.x * width - cropWidth / 2));
+  const y = Math.min(height - cropHeight, Math.max(0, edits.center.y * height - cropHeight / 2));
+  return { x, y, width: cropWidth, height: cropHeight };
+};
+
+// Draws the source rotated and flipped, filling a canvas of the rotated size
+export const drawTransformed = (
+  context: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  edits: Pick<ImageEdits, 'rotation' | 'flipX' | 'flipY'>,
+  scale = 1
+) => {
+  const rotated = getRotatedSize(sourceWidth, sourceHeight, edits.rotation);
+  context.save();
+  context.translate((rotated.width * scale) / 2, (rotated.height * scale) / 2);
+  context.scale(edits.flipX ? -1 : 1, edits.flipY ? -1 : 1);
+  context.rotate((edits.rotation * Math.PI) / 180);
+  context.drawImage(
+    source,
+    (-sourceWidth * scale) / 2,
+    (-sourceHeight * scale) / 2,
+    sourceWidth * scale,
+    sourceHeight * scale
+  );
+  context.restore();
+};
+
+export const loadImageSource = async (source: File | string): Promise<ImageBitmap> => {
+  if (typeof source !== 'string') {
+    return createImageBitmap(source);
+  }
+  // Stored images are fetched rather than drawn from an <img> so the canvas is
+  // not tainted; the image host must allow the admin origin (CORS)
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+  return createImageBitmap(await response.blob());
+};
+
+export const renderEditedImage = async (
+  bitmap: ImageBitmap,
+  edits: ImageEdits,
+  name: string,
+  options: ImageProcessingOptions = DEFAULT_IMAGE_PROCESSING
+): Promise<File> => {
+  const rotated = getRotatedSize(bitmap.width, bitmap.height, edits.rotation);
+  const full = createCanvas(rotated.width, rotated.height);
+  drawTransformed(full.context, bitmap, bitmap.width, bitmap.height, edits);
+
+  const crop = getCropRect(rotated.width, rotated.height, edits);
+  const size = getTargetSize(crop.width, crop.height, options.maxDimension);
+  const output = createCanvas(size.width, size.height);
+  if (options.format === 'jpeg') {
+    output.context.fillStyle = '#ffffff';
+    output.context.fillRect(0, 0, size.width, size.height);
+  }
+  output.context.imageSmoothingQuality = 'high';
+  output.context.drawImage(full.canvas, crop.x, crop.y, crop.width, crop.height, 0, 0, size.width, size.height);
+
+  return canvasToFile(output.canvas, name, options);
+};
+
+// Stored files are never modified in place: the edited file is uploaded as a
+// new image that takes over the old one's slot, then the old one is removed.
+export const replaceProductImage = async (
+  api: AdminApi,
+  productId: string,
+  images: ProductImage[],
+  image: ProductImage,
+  file: File,
+  focalPoint: FocalPoint
+): Promise<ProductImage[]> => {
+  const uploaded = await uploadImageFile(api, productId, file, image.is_main);
+  let replacement = await api.images.setFocalPoint(productId, uploaded.id, focalPoint);
+  const details = getImageDetails(image);
+  if (details) {
+    replacement = await api.images.updateDetails(productId, replacement.id, details);
+  }
+  await api.images.remove(productId, image.id);
+
+  const ordered = [...images].sort((a, b) => a.display_order - b.display_order);
+  const updated = ordered.map(current => (current.id === image.id ? replacement : current));
+  await api.images.reorder(productId, updated.map(current => current.id));
+  return updated.map((current, index) => ({ ...current, display_order: index + 1 }));
+};
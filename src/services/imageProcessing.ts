@@ -0,0 +1,120 @@
+// Shrinks photos in the browser before they are uploaded. Studio photos come
+// straight off phones at 12-20MB; they are downscaled to a maximum dimension
+// and re-encoded, which also drops all EXIF data including GPS coordinates,
+// since drawing to a canvas keeps nothing but the pixels.
+
+export type ImageOutputFormat = 'webp' | 'jpeg';
+
+export interface ImageProcessingOptions {
+  // Longest side of the processed image in pixels
+  maxDimension: number;
+  format: ImageOutputFormat;
+  // Encoder quality between 0 and 1
+  quality: number;
+}
+
+export interface ProcessedImage {
+  file: File;
+  originalSize: number;
+  width: number;
+  height: number;
+}
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const DEFAULT_IMAGE_PROCESSING: ImageProcessingOptions = {
+  maxDimension: readNumber(process.env.REACT_APP_IMAGE_MAX_DIMENSION, 2400),
+  format: process.env.REACT_APP_IMAGE_FORMAT === 'jpeg' ? 'jpeg' : 'webp',
+  quality: Math.min(1, readNumber(process.env.REACT_APP_IMAGE_QUALITY, 0.85)),
+};
+
+const extensions: Record<ImageOutputFormat, string> = {
+  webp: 'webp',
+  jpeg: 'jpg',
+};
+
+export const getTargetSize = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const renameFile = (name: string, format: ImageOutputFormat) => {
+  const base = name.includes('.') ? name.substring(0, name.lastIndexOf('.')) : name;
+  return `${base}.${extensions[format]}`;
+};
+
+const encode = (canvas: HTMLCanvasElement, format: ImageOutputFormat, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, `image/${format}`, quality));
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Image processing is not supported in this browser');
+  }
+  return { canvas, context };
+};
+
+// Encodes a canvas as a file named after the original, in the configured format
+export const canvasToFile = async (
+  canvas: HTMLCanvasElement,
+  name: string,
+  options: ImageProcessingOptions = DEFAULT_IMAGE_PROCESSING
+): Promise<File> => {
+  let format = options.format;
+  let blob = await encode(canvas, format, options.quality);
+  // Browsers that cannot encode WebP silently return a PNG instead
+  if (!blob || blob.type !== `image/${format}`) {
+    format = 'jpeg';
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.globalCompositeOperation = 'destination-over';
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    blob = await encode(canvas, format, options.quality);
+  }
+  if (!blob) {
+    throw new Error(`Could not process ${name}`);
+  }
+  return new File([blob], renameFile(name, format), { type: blob.type, lastModified: Date.now() });
+};
+
+export const processImage = async (
+  file: File,
+  options: ImageProcessingOptions = DEFAULT_IMAGE_PROCESSING
+): Promise<ProcessedImage> => {
+  // Browsers apply the EXIF orientation when decoding, so portrait shots stay upright once the tag is gone
+  const bitmap = await createImageBitmap(file);
+  const { width, height } = getTargetSize(bitmap.width, bitmap.height, options.maxDimension);
+
+  let canvas: HTMLCanvasElement;
+  let context: CanvasRenderingContext2D;
+  try {
+    ({ canvas, context } = createCanvas(width, height));
+  } catch (err) {
+    bitmap.close();
+    throw err;
+  }
+
+  if (options.format === 'jpeg') {
+    // JPEG has no transparency; without a background transparent areas turn black
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return {
+    file: await canvasToFile(canvas, file.name, options),
+    originalSize: file.size,
+    width,
+    height,
+  };
+};
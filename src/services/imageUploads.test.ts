@@ -0,0 +1,305 @@
+import { ApiRequestError } from '../contexts/AuthContext';
+import { ProductImage } from '../types';
+import { AdminApi } from './api';
+import {
+  DEFAULT_UPLOAD_CONFIG,
+  UploadError,
+  createLocalUploadStrategy,
+  createMemoryUploadStrategy,
+  createS3MultipartUploadStrategy,
+  createS3UploadStrategy,
+  createUploadStrategy,
+  getPartRanges,
+  uploadImage,
+} from './imageUploads';
+
+const confirmedImage: ProductImage = {
+  id: 'img-1',
+  product_id: 'p1',
+  image_url: 'https://cdn.example.com/p1/ring.webp',
+  is_main: true,
+  display_order: 1,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const createFakeApi = () => {
+  const images = {
+    generateUploadUrl: jest.fn(async () => ({ uploadUrl: 'http://localhost/upload/1', imageKey: 'local/ring.webp' })),
+    generatePresignedUploadUrl: jest.fn(async () => ({ uploadUrl: 'https://s3.example.com/put', imageKey: 's3/ring.webp' })),
+    createMultipartUpload: jest.fn(async (_productId: string, file: { partCount: number }) => ({
+      uploadId: 'upload-1',
+      imageKey: 's3/large.webp',
+      partUrls: Array.from({ length: file.partCount }, (_, index) => `https://s3.example.com/part/${index + 1}`),
+    })),
+    completeMultipartUpload: jest.fn(async () => undefined),
+    abortMultipartUpload: jest.fn(async () => undefined),
+    confirm: jest.fn(async (_productId: string, upload: { imageKey: string; isMain: boolean }) => ({
+      ...confirmedImage,
+      is_main: upload.isMain,
+    })),
+    setFocalPoint: jest.fn(async (_productId: string, _imageId: string, focal_point: { x: number; y: number }) => ({
+      ...confirmedImage,
+      focal_point,
+    })),
+  };
+  return { api: { images } as unknown as AdminApi, images };
+};
+
+// Answers every request with the next queued status, reporting the whole body as sent
+class FakeXhr {
+  static requests: { method: string; url: string; headers: Record<string, string>; body: Blob }[] = [];
+  static statuses: number[] = [];
+
+  status = 0;
+  timeout = 0;
+  upload = {
+    listeners: [] as ((event: ProgressEvent) => void)[],
+    addEventListener(_type: string, listener: (event: ProgressEvent) => void) {
+      this.listeners.push(listener);
+    },
+  };
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  ontimeout: (() => void) | null = null;
+  private request = { method: '', url: '', headers: {} as Record<string, string>, body: new Blob() };
+
+  open(method: string, url: string) {
+    this.request.method = method;
+    this.request.url = url;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.request.headers[name] = value;
+  }
+
+  getResponseHeader(name: string) {
+    return name === 'ETag' ? `"etag-${FakeXhr.requests.length}"` : null;
+  }
+
+  send(body: Blob) {
+    this.request.body = body;
+    FakeXhr.requests.push(this.request);
+    this.status = FakeXhr.statuses.shift() ?? 200;
+    setTimeout(() => {
+      const progress = new ProgressEvent('progress', { lengthComputable: true, loaded: body.size, total: body.size });
+      this.upload.listeners.forEach(listener => listener(progress));
+      if (this.status === 0) {
+        this.onerror?.();
+      } else {
+        this.onload?.();
+      }
+    }, 0);
+  }
+}
+
+const file = (name = 'ring.webp', size = 1024) => new File([new Uint8Array(size)], name, { type: 'image/webp' });
+
+describe('image uploads', () => {
+  const originalXhr = window.XMLHttpRequest;
+
+  beforeEach(() => {
+    FakeXhr.requests = [];
+    FakeXhr.statuses = [];
+    window.XMLHttpRequest = FakeXhr as unknown as typeof XMLHttpRequest;
+  });
+
+  afterEach(() => {
+    window.XMLHttpRequest = originalXhr;
+  });
+
+  test('the memory strategy stores the file and the image is confirmed with its key', async () => {
+    const { api, images } = createFakeApi();
+    const strategy = createMemoryUploadStrategy();
+    const progress: number[] = [];
+
+    const image = await uploadImage(api, strategy, {
+      productId: 'p1',
+      file: file(),
+      isMain: true,
+      onProgress: percent => progress.push(percent),
+    });
+
+    expect(image).toMatchObject({ id: 'img-1', is_main: true });
+    expect(Array.from(strategy.files.keys())).toEqual(['memory/p1/1-ring.webp']);
+    expect(images.confirm).toHaveBeenCalledWith('p1', { imageKey: 'memory/p1/1-ring.webp', isMain: true });
+    expect(progress).toEqual([100]);
+  });
+
+  test('temporary failures are retried before confirming once', async () => {
+    const { api, images } = createFakeApi();
+    const onRetry = jest.fn();
+
+    await uploadImage(api, createMemoryUploadStrategy({ failures: 2 }), {
+      productId: 'p1',
+      file: file(),
+      isMain: false,
+      onRetry,
+      retries: 2,
+      retryDelayMs: 0,
+    });
+
+    expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([2, 3]);
+    expect(images.confirm).toHaveBeenCalledTimes(1);
+  });
+
+  test('the upload fails once the retries are used up', async () => {
+    const { api, images } = createFakeApi();
+
+    await expect(
+      uploadImage(api, createMemoryUploadStrategy({ failures: 3 }), {
+        productId: 'p1',
+        file: file(),
+        isMain: false,
+        retries: 2,
+        retryDelayMs: 0,
+      })
+    ).rejects.toThrow('network error');
+    expect(images.confirm).not.toHaveBeenCalled();
+  });
+
+  test('client errors are not retried', async () => {
+    const { api } = createFakeApi();
+    const strategy = createMemoryUploadStrategy();
+    strategy.upload = jest.fn(async () => {
+      throw new ApiRequestError('Unsupported file type', 422);
+    });
+
+    await expect(
+      uploadImage(api, strategy, { productId: 'p1', file: file(), isMain: false, retryDelayMs: 0 })
+    ).rejects.toThrow('Unsupported file type');
+    expect(strategy.upload).toHaveBeenCalledTimes(1);
+  });
+
+  test('a focal point chosen before upload is saved after confirming', async () => {
+    const { api, images } = createFakeApi();
+
+    const image = await uploadImage(api, createMemoryUploadStrategy(), {
+      productId: 'p1',
+      file: file(),
+      isMain: true,
+      focalPoint: { x: 0.25, y: 0.75 },
+    });
+
+    expect(images.setFocalPoint).toHaveBeenCalledWith('p1', 'img-1', { x: 0.25, y: 0.75 });
+    expect(image.focal_point).toEqual({ x: 0.25, y: 0.75 });
+  });
+
+  test('the local strategy asks the backend for an upload URL by file name', async () => {
+    const { api, images } = createFakeApi();
+
+    const key = await createLocalUploadStrategy(api).upload({ productId: 'p1', file: file(), isMain: true });
+
+    expect(key).toBe('local/ring.webp');
+    expect(images.generateUploadUrl).toHaveBeenCalledWith('p1', { filename: 'ring.webp', contentType: 'image/webp' });
+    expect(FakeXhr.requests).toMatchObject([
+      { method: 'PUT', url: 'http://localhost/upload/1', headers: { 'Content-Type': 'image/webp' } },
+    ]);
+  });
+
+  test('the S3 strategy presigns by content type and image role', async () => {
+    const { api, images } = createFakeApi();
+
+    const key = await createS3UploadStrategy(api).upload({ productId: 'p1', file: file(), isMain: false });
+
+    expect(key).toBe('s3/ring.webp');
+    expect(images.generatePresignedUploadUrl).toHaveBeenCalledWith('p1', { contentType: 'image/webp', type: 'gallery' });
+    expect(FakeXhr.requests[0].url).toBe('https://s3.example.com/put');
+  });
+
+  test('server errors from storage are retryable, client errors are not', async () => {
+    const { api } = createFakeApi();
+    const strategy = createS3UploadStrategy(api);
+
+    FakeXhr.statuses = [503];
+    await expect(strategy.upload({ productId: 'p1', file: file(), isMain: false })).rejects.toMatchObject({
+      retryable: true,
+      status: 503,
+    });
+
+    FakeXhr.statuses = [403];
+    const error = await strategy.upload({ productId: 'p1', file: file(), isMain: false }).catch(err => err);
+    expect(error).toBeInstanceOf(UploadError);
+    expect(error.retryable).toBe(false);
+  });
+
+  test('large files are split into parts and completed with their ETags', async () => {
+    const { api, images } = createFakeApi();
+    const strategy = createS3MultipartUploadStrategy(api, { multipartThreshold: 2048, partSize: 1024 });
+    const progress: number[] = [];
+
+    const key = await strategy.upload({
+      productId: 'p1',
+      file: file('large.webp', 2560),
+      isMain: true,
+      onProgress: percent => progress.push(percent),
+    });
+
+    expect(key).toBe('s3/large.webp');
+    expect(images.createMultipartUpload).toHaveBeenCalledWith('p1', {
+      filename: 'large.webp',
+      contentType: 'image/webp',
+      partCount: 3,
+    });
+    expect(FakeXhr.requests.map(request => [request.url, request.body.size])).toEqual([
+      ['https://s3.example.com/part/1', 1024],
+      ['https://s3.example.com/part/2', 1024],
+      ['https://s3.example.com/part/3', 512],
+    ]);
+    expect(images.completeMultipartUpload).toHaveBeenCalledWith('p1', {
+      uploadId: 'upload-1',
+      imageKey: 's3/large.webp',
+      parts: [
+        { partNumber: 1, etag: '"etag-1"' },
+        { partNumber: 2, etag: '"etag-2"' },
+        { partNumber: 3, etag: '"etag-3"' },
+      ],
+    });
+    expect(progress).toEqual([40, 80, 100]);
+  });
+
+  test('a failed multipart upload is aborted', async () => {
+    const { api, images } = createFakeApi();
+    const strategy = createS3MultipartUploadStrategy(api, { multipartThreshold: 2048, partSize: 1024 });
+    FakeXhr.statuses = [200, 0];
+
+    await expect(strategy.upload({ productId: 'p1', file: file('large.webp', 2560), isMain: true })).rejects.toThrow(
+      'network error'
+    );
+    expect(images.abortMultipartUpload).toHaveBeenCalledWith('p1', { uploadId: 'upload-1', imageKey: 's3/large.webp' });
+    expect(images.completeMultipartUpload).not.toHaveBeenCalled();
+  });
+
+  test('small files skip multipart and use a single presigned PUT', async () => {
+    const { api, images } = createFakeApi();
+    const strategy = createS3MultipartUploadStrategy(api, { multipartThreshold: 2048, partSize: 1024 });
+
+    await strategy.upload({ productId: 'p1', file: file(), isMain: true });
+
+    expect(images.createMultipartUpload).not.toHaveBeenCalled();
+    expect(images.generatePresignedUploadUrl).toHaveBeenCalledWith('p1', { contentType: 'image/webp', type: 'main' });
+  });
+
+  test('by default multipart starts at the part size, well below the 10MB image limit', () => {
+    expect(DEFAULT_UPLOAD_CONFIG.multipartThreshold).toBe(DEFAULT_UPLOAD_CONFIG.partSize);
+    expect(DEFAULT_UPLOAD_CONFIG.multipartThreshold).toBeLessThan(10 * 1024 * 1024);
+  });
+
+  test('part ranges cover the file without gaps', () => {
+    expect(getPartRanges(2500, 1000)).toEqual([
+      { partNumber: 1, start: 0, end: 1000 },
+      { partNumber: 2, start: 1000, end: 2000 },
+      { partNumber: 3, start: 2000, end: 2500 },
+    ]);
+    expect(getPartRanges(0, 1000)).toEqual([{ partNumber: 1, start: 0, end: 0 }]);
+  });
+
+  test('the strategy is chosen from configuration', () => {
+    const { api } = createFakeApi();
+    const config = { multipartThreshold: 2048, partSize: 1024, retries: 2, retryDelayMs: 0 };
+
+    expect(createUploadStrategy(api, { ...config, strategy: 'local' }).kind).toBe('local');
+    expect(createUploadStrategy(api, { ...config, strategy: 's3' }).kind).toBe('s3');
+    expect(createUploadStrategy(api, { ...config, strategy: 's3-multipart' }).kind).toBe('s3-multipart');
+  });
+});
@@ -0,0 +1,291 @@
+import { ApiRequestError } from '../contexts/AuthContext';
+import { FocalPoint, ProductImage, UploadedPart } from '../types';
+import { AdminApi } from './api';
+
+// Product images reach storage through an upload strategy: the local backend
+// in development, S3 in production. Strategies only move bytes and return the
+// key of the stored file; progress reporting, retries and confirming the image
+// with the backend are shared so every strategy behaves the same in the form.
+
+export type UploadStrategyKind = 'local' | 's3' | 's3-multipart' | 'memory';
+
+export interface UploadRequest {
+  productId: string;
+  file: File;
+  isMain: boolean;
+  // Percentage of the file sent so far
+  onProgress?: (percent: number) => void;
+}
+
+export interface UploadStrategy {
+  kind: UploadStrategyKind;
+  label: string;
+  // Stores the file and resolves with the key the backend confirms it by
+  upload: (request: UploadRequest) => Promise<string>;
+}
+
+export class UploadError extends Error {
+  constructor(message: string, public readonly retryable: boolean, public readonly status?: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export interface UploadConfig {
+  strategy: Exclude<UploadStrategyKind, 'memory'>;
+  // Files at least this large are sent in parts by the multipart strategy; it
+  // must stay below the image size limit or multipart is never used
+  multipartThreshold: number;
+  // S3 rejects parts smaller than 5MB, except the last one
+  partSize: number;
+  // Extra attempts after a failure that may be temporary
+  retries: number;
+  retryDelayMs: number;
+}
+
+const MB = 1024 * 1024;
+
+const isProduction = process.env.NODE_ENV === 'production' || process.env.REACT_APP_ENV === 'production';
+
+const readStrategy = (value: string | undefined): UploadConfig['strategy'] => {
+  if (value === 'local' || value === 's3' || value === 's3-multipart') return value;
+  return isProduction ? 's3' : 'local';
+};
+
+export const DEFAULT_UPLOAD_CONFIG: UploadConfig = {
+  strategy: readStrategy(process.env.REACT_APP_UPLOAD_STRATEGY),
+  multipartThreshold: (Number(process.env.REACT_APP_UPLOAD_MULTIPART_THRESHOLD_MB) || 5) * MB,
+  partSize: 5 * MB,
+  retries: 2,
+  retryDelayMs: 1000,
+};
+
+const S3_TIMEOUT = 120000; // 2 minutes
+
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+const isRetryable = (err: unknown) => {
+  if (err instanceof UploadError) return err.retryable;
+  if (err instanceof ApiRequestError) return isRetryableStatus(err.status);
+  return false;
+};
+
+const toPercent = (loaded: number, total: number) => (total > 0 ? Math.round((loaded * 100) / total) : 100);
+
+// XMLHttpRequest rather than fetch, which cannot report upload progress
+const putFile = (
+  url: string,
+  body: Blob,
+  options: { contentType?: string; timeout?: number; onProgress?: (loaded: number) => void }
+) =>
+  new Promise<XMLHttpRequest>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+
+    xhr.upload.addEventListener('progress', (progressEvent) => {
+      if (progressEvent.lengthComputable) {
+        options.onProgress?.(progressEvent.loaded);
+      }
+    });
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr);
+      } else {
+        reject(new UploadError(`Upload failed with status ${xhr.status}`, isRetryableStatus(xhr.status), xhr.status));
+      }
+    };
+    xhr.onerror = () => reject(new UploadError('Upload failed - network error', true));
+    xhr.ontimeout = () => reject(new UploadError('Upload failed - timeout', true));
+
+    xhr.open('PUT', url);
+    if (options.contentType) {
+      xhr.setRequestHeader('Content-Type', options.contentType);
+    }
+    if (options.timeout) {
+      xhr.timeout = options.timeout;
+    }
+    xhr.send(body);
+  });
+
+// Development: the backend hands out an upload URL on itself and keeps the file
+export const createLocalUploadStrategy = (api: AdminApi): UploadStrategy => ({
+  kind: 'local',
+  label: 'Local',
+  upload: async ({ productId, file, onProgress }) => {
+    const { uploadUrl, imageKey } = await api.images.generateUploadUrl(productId, {
+      filename: file.name,
+      contentType: file.type,
+    });
+    await putFile(uploadUrl, file, {
+      contentType: file.type,
+      onProgress: loaded => onProgress?.(toPercent(loaded, file.size)),
+    });
+    return imageKey;
+  },
+});
+
+// Production: the file goes straight to S3 through a presigned PUT URL
+export const createS3UploadStrategy = (api: AdminApi): UploadStrategy => ({
+  kind: 's3',
+  label: 'S3',
+  upload: async ({ productId, file, isMain, onProgress }) => {
+    const { uploadUrl, imageKey } = await api.images.generatePresignedUploadUrl(productId, {
+      contentType: file.type,
+      type: isMain ? 'main' : 'gallery',
+    });
+    await putFile(uploadUrl, file, {
+      contentType: file.type,
+      timeout: S3_TIMEOUT,
+      onProgress: loaded => onProgress?.(toPercent(loaded, file.size)),
+    });
+    return imageKey;
+  },
+});
+
+export const getPartRanges = (size: number, partSize: number) =>
+  Array.from({ length: Math.max(1, Math.ceil(size / partSize)) }, (_, index) => ({
+    partNumber: index + 1,
+    start: index * partSize,
+    end: Math.min(size, (index + 1) * partSize),
+  }));
+
+// Large files are sent to S3 in parts so no single request has to carry the
+// whole file within the timeout. The bucket's CORS rules must expose the ETag header.
+export const createS3MultipartUploadStrategy = (
+  api: AdminApi,
+  config: Pick<UploadConfig, 'multipartThreshold' | 'partSize'> = DEFAULT_UPLOAD_CONFIG
+): UploadStrategy => {
+  const single = createS3UploadStrategy(api);
+
+  return {
+    kind: 's3-multipart',
+    label: 'S3 multipart',
+    upload: async request => {
+      const { productId, file, onProgress } = request;
+      if (file.size < config.multipartThreshold) {
+        return single.upload(request);
+      }
+
+      const ranges = getPartRanges(file.size, config.partSize);
+      const { uploadId, imageKey, partUrls } = await api.images.createMultipartUpload(productId, {
+        filename: file.name,
+        contentType: file.type,
+        partCount: ranges.length,
+      });
+
+      try {
+        const parts: UploadedPart[] = [];
+        for (const range of ranges) {
+          const xhr = await putFile(partUrls[range.partNumber - 1], file.slice(range.start, range.end), {
+            timeout: S3_TIMEOUT,
+            onProgress: loaded => onProgress?.(toPercent(range.start + loaded, file.size)),
+          });
+          const etag = xhr.getResponseHeader('ETag');
+          if (!etag) {
+            throw new UploadError('Storage did not return an ETag for the uploaded part', false);
+          }
+          parts.push({ partNumber: range.partNumber, etag });
+        }
+
+        await api.images.completeMultipartUpload(productId, { uploadId, imageKey, parts });
+        return imageKey;
+      } catch (err) {
+        await api.images.abortMultipartUpload(productId, { uploadId, imageKey }).catch(abortError => {
+          console.error('Error aborting multipart upload:', abortError);
+        });
+        throw err;
+      }
+    },
+  };
+};
+
+export interface MemoryUploadStrategy extends UploadStrategy {
+  // Stored files by image key
+  files: Map<string, File>;
+}
+
+// Keeps files in memory for tests; the first `failures` uploads fail as if the network dropped
+export const createMemoryUploadStrategy = ({ failures = 0 } = {}): MemoryUploadStrategy => {
+  const files = new Map<string, File>();
+  let remainingFailures = failures;
+
+  return {
+    kind: 'memory',
+    label: 'In-memory',
+    files,
+    upload: async ({ productId, file, onProgress }) => {
+      if (remainingFailures > 0) {
+        remainingFailures -= 1;
+        throw new UploadError('Upload failed - network error', true);
+      }
+      const imageKey = `memory/${productId}/${files.size + 1}-${file.name}`;
+      files.set(imageKey, file);
+      onProgress?.(100);
+      return imageKey;
+    },
+  };
+};
+
+export const createUploadStrategy = (api: AdminApi, config: UploadConfig = DEFAULT_UPLOAD_CONFIG): UploadStrategy => {
+  switch (config.strategy) {
+    case 's3':
+      return createS3UploadStrategy(api);
+    case 's3-multipart':
+      return createS3MultipartUploadStrategy(api, config);
+    default:
+      return createLocalUploadStrategy(api);
+  }
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface UploadImageOptions {
+  productId: string;
+  file: File;
+  isMain: boolean;
+  focalPoint?: FocalPoint;
+  onProgress?: (percent: number) => void;
+  // Called before each retry with the number of the attempt about to start
+  onRetry?: (attempt: number, error: Error) => void;
+  retries?: number;
+  retryDelayMs?: number;
+}
+
+export const uploadImage = async (
+  api: AdminApi,
+  strategy: UploadStrategy,
+  {
+    productId,
+    file,
+    isMain,
+    focalPoint,
+    onProgress,
+    onRetry,
+    retries = DEFAULT_UPLOAD_CONFIG.retries,
+    retryDelayMs = DEFAULT_UPLOAD_CONFIG.retryDelayMs,
+  }: UploadImageOptions
+): Promise<ProductImage> => {
+  const store = async (attempt: number): Promise<string> => {
+    try {
+      return await strategy.upload({ productId, file, isMain, onProgress });
+    } catch (err: any) {
+      if (attempt > retries || !isRetryable(err)) {
+        throw err;
+      }
+      onRetry?.(attempt + 1, err);
+      onProgress?.(0);
+      await wait(retryDelayMs * 2 ** (attempt - 1));
+      return store(attempt + 1);
+    }
+  };
+  const imageKey = await store(1);
+
+  // Confirming is not retried: the backend may have created the image already
+  const image = await api.images.confirm(productId, { imageKey, isMain });
+  return focalPoint ? api.images.setFocalPoint(productId, image.id, focalPoint) : image;
+};
+
+// Adds a file to a product's images outside the upload form, e.g. when
+// copying or replacing images, through the configured strategy.
+export const uploadImageFile = (api: AdminApi, productId: string, file: File, isMain: boolean) =>
+  uploadImage(api, createUploadStrategy(api), { productId, file, isMain });
@@ -0,0 +1,99 @@
+import { InventoryEntry, InventoryEntryType, Product, ProductInput, ProductUpdateInput } from '../types';
+import { getTotalStock, getVariantLabel } from './productVariants';
+
+// Inventory ledger: every stock change is recorded as an entry with a type,
+// a signed quantity and a reason. Received and returned stock is added,
+// sold and damaged stock removed; corrections go either way after a count.
+
+export const INVENTORY_ENTRY_TYPES: InventoryEntryType[] = ['received', 'sold', 'returned', 'damaged', 'correction'];
+
+export const INVENTORY_ENTRY_LABELS: Record<InventoryEntryType, string> = {
+  received: 'Received',
+  sold: 'Sold',
+  returned: 'Returned',
+  damaged: 'Damaged',
+  correction: 'Manual correction',
+};
+
+// Product saves never carry stock levels: a level loaded with the form would
+// overwrite sales and adjustments made since, without a ledger entry.
+export const toProductUpdate = ({ stock_quantity, variants, ...input }: ProductInput): ProductUpdateInput => ({
+  ...input,
+  ...(variants && { variants: variants.map(({ stock_quantity: _stock, ...variant }) => variant) }),
+});
+
+// Sales are recorded by the backend when an order is placed
+export const ADJUSTMENT_TYPES: InventoryEntryType[] = ['received', 'returned', 'damaged', 'correction'];
+
+const DIRECTIONS: Record<InventoryEntryType, 1 | -1 | 0> = {
+  received: 1,
+  returned: 1,
+  sold: -1,
+  damaged: -1,
+  correction: 0,
+};
+
+// The signed delta for an adjustment. Corrections are entered as the counted
+// stock and become the difference to the current stock.
+export const getAdjustmentDelta = (type: InventoryEntryType, quantity: number, currentStock: number): number => {
+  const direction = DIRECTIONS[type];
+  return direction === 0 ? quantity - currentStock : direction * quantity;
+};
+
+export const validateAdjustment = (
+  type: InventoryEntryType,
+  quantity: string,
+  reason: string,
+  currentStock: number
+): string[] => {
+  const errors: string[] = [];
+  const value = Number(quantity);
+  if (quantity.trim() === '' || !Number.isInteger(value) || value < 0) {
+    errors.push(type === 'correction' ? 'Counted stock must be a whole number of 0 or more' : 'Quantity must be a whole number');
+  } else if (type !== 'correction' && value === 0) {
+    errors.push('Quantity must be at least 1');
+  } else if (type === 'correction' && value === currentStock) {
+    errors.push('Counted stock is the same as the current stock');
+  } else if (currentStock + getAdjustmentDelta(type, value, currentStock) < 0) {
+    errors.push(`Only ${currentStock} in stock`);
+  }
+  if (!reason.trim()) errors.push('Reason is required');
+  return errors;
+};
+
+export interface LedgerBalance {
+  label: string;
+  variantSku?: string;
+  ledgerTotal: number;
+  currentStock: number;
+}
+
+// Compares the sum of ledger deltas with the stored stock, for the product as
+// a whole and for each variant. Any difference means stock was changed
+// without an entry being recorded.
+export const reconcileLedger = (entries: InventoryEntry[], product: Product): LedgerBalance[] => {
+  const sum = (matching: InventoryEntry[]) => matching.reduce((total, entry) => total + entry.delta, 0);
+  return [
+    { label: 'Total', ledgerTotal: sum(entries), currentStock: getTotalStock(product) },
+    ...(product.variants || []).map(variant => ({
+      label: getVariantLabel(variant),
+      variantSku: variant.sku,
+      ledgerTotal: sum(entries.filter(entry => entry.variant_sku === variant.sku)),
+      currentStock: variant.stock_quantity,
+    })),
+  ];
+};
+
+export const isBalanced = (balances: LedgerBalance[]) =>
+  balances.every(balance => balance.ledgerTotal === balance.currentStock);
+
+// Applies a recorded entry to a product, so pages can update without reloading
+export const applyInventoryEntry = (product: Product, entry: InventoryEntry): Product => {
+  if (!entry.variant_sku) {
+    return { ...product, stock_quantity: entry.stock_after };
+  }
+  const variants = (product.variants || []).map(variant =>
+    variant.sku === entry.variant_sku ? { ...variant, stock_quantity: entry.stock_after } : variant
+  );
+  return { ...product, variants, stock_quantity: getTotalStock({ stock_quantity: 0, variants }) };
+};
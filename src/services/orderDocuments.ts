@@ -0,0 +1,90 @@
+import { OrderSummary, OrderItemSummary } from '../types/order';
+
+// Data for printable order documents. Packing slips list what goes in the box;
+// invoices add prices, tax and our business details. Both the print view and
+// the PDF export render from these models so they always agree.
+
+export type OrderDocumentKind = 'packing-slip' | 'invoice';
+
+export const BUSINESS_DETAILS = {
+  name: process.env.REACT_APP_BUSINESS_NAME || 'Iguanas Jewelry',
+  addressLines: (process.env.REACT_APP_BUSINESS_ADDRESS || '').split('|').filter(Boolean),
+  email: process.env.REACT_APP_BUSINESS_EMAIL || '',
+  taxId: process.env.REACT_APP_BUSINESS_TAX_ID || '',
+};
+
+// Prices are tax-inclusive; the rate is only used to show the tax portion.
+const TAX_RATE = Number(process.env.REACT_APP_TAX_RATE || 0);
+const TAX_LABEL = process.env.REACT_APP_TAX_LABEL || 'Tax';
+
+export interface DocumentLine {
+  label: string;
+  amount: number;
+}
+
+export interface OrderDocument {
+  kind: OrderDocumentKind;
+  title: string;
+  order: OrderSummary;
+  reference: string;
+  issuedAt: string;
+  items: OrderItemSummary[];
+  // Invoice-only totals; empty for packing slips
+  totals: DocumentLine[];
+  taxLines: DocumentLine[];
+}
+
+export const formatDocumentCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+export const formatDocumentDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+export const formatAddressLines = (order: OrderSummary): string[] => {
+  const address = order.shipping_address;
+  return [
+    order.shipping_name,
+    address.address_line1,
+    address.address_line2,
+    `${address.city}, ${address.state} ${address.postal_code}`,
+    address.country,
+  ].filter((line): line is string => Boolean(line));
+};
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+const buildTotals = (order: OrderSummary): { totals: DocumentLine[]; taxLines: DocumentLine[] } => {
+  const itemsTotal = roundCurrency(order.items.reduce((sum, item) => sum + item.subtotal, 0));
+  // Anything charged beyond the line items is shipping
+  const shipping = roundCurrency(order.total_amount - itemsTotal);
+
+  const totals: DocumentLine[] = [{ label: 'Subtotal', amount: itemsTotal }];
+  if (shipping > 0) {
+    totals.push({ label: 'Shipping', amount: shipping });
+  }
+  totals.push({ label: 'Total', amount: order.total_amount });
+
+  const taxLines: DocumentLine[] = TAX_RATE > 0
+    ? [{
+        label: `${TAX_LABEL} included (${roundCurrency(TAX_RATE * 100)}%)`,
+        amount: roundCurrency(order.total_amount - order.total_amount / (1 + TAX_RATE)),
+      }]
+    : [];
+
+  return { totals, taxLines };
+};
+
+export const buildOrderDocument = (order: OrderSummary, kind: OrderDocumentKind): OrderDocument => {
+  const reference = order.id.slice(-8).toUpperCase();
+  const { totals, taxLines } = kind === 'invoice' ? buildTotals(order) : { totals: [], taxLines: [] };
+  return {
+    kind,
+    title: kind === 'invoice' ? 'Invoice' : 'Packing Slip',
+    order,
+    reference: kind === 'invoice' ? `INV-${reference}` : `#${reference}`,
+    issuedAt: kind === 'invoice' ? order.created_at : new Date().toISOString(),
+    items: order.items,
+    totals,
+    taxLines,
+  };
+};
@@ -0,0 +1,113 @@
+import {
+  ORDER_STATUSES,
+  ORDER_TRANSITIONS,
+  InvalidTransitionError,
+  buildStatusUpdate,
+  canTransition,
+  findTransition,
+  getAvailableTransitions,
+  getBulkTransitions,
+  isTerminalStatus,
+  needsDialog,
+  validateTransitionInput,
+} from './orderLifecycle';
+
+describe('order lifecycle', () => {
+  test('pending orders can be paid or cancelled', () => {
+    expect(getAvailableTransitions('pending').map(t => t.to)).toEqual(['paid', 'cancelled']);
+  });
+
+  test('paid orders must ship before they can be delivered', () => {
+    expect(canTransition('paid', 'shipped')).toBe(true);
+    expect(canTransition('paid', 'delivered')).toBe(false);
+    expect(canTransition('shipped', 'delivered')).toBe(true);
+  });
+
+  test('orders can be refunded once paid, including while in transit', () => {
+    expect(canTransition('pending', 'refunded')).toBe(false);
+    expect(canTransition('paid', 'refunded')).toBe(true);
+    expect(canTransition('shipped', 'refunded')).toBe(true);
+    expect(canTransition('delivered', 'refunded')).toBe(true);
+    expect(findTransition('shipped', 'refunded')!.flow).toBe('refund');
+  });
+
+  test('cancelled and refunded orders are terminal', () => {
+    expect(isTerminalStatus('cancelled')).toBe(true);
+    expect(isTerminalStatus('refunded')).toBe(true);
+    expect(isTerminalStatus('paid')).toBe(false);
+    expect(getAvailableTransitions('cancelled')).toEqual([]);
+  });
+
+  test('every transition uses known statuses and no status transitions to itself', () => {
+    ORDER_TRANSITIONS.forEach(transition => {
+      expect(ORDER_STATUSES).toContain(transition.from);
+      expect(ORDER_STATUSES).toContain(transition.to);
+      expect(transition.from).not.toBe(transition.to);
+    });
+  });
+
+  test('every non-terminal status can eventually reach a terminal status', () => {
+    ORDER_STATUSES.forEach(start => {
+      const seen = new Set([start]);
+      const queue = [start];
+      while (queue.length > 0) {
+        getAvailableTransitions(queue.shift()!).forEach(({ to }) => {
+          if (!seen.has(to)) {
+            seen.add(to);
+            queue.push(to);
+          }
+        });
+      }
+      expect(Array.from(seen).some(isTerminalStatus)).toBe(true);
+    });
+  });
+
+  test('partially refunded orders continue from where their goods were', () => {
+    expect(getAvailableTransitions('partially_refunded', 'unshipped').map(t => t.to)).toEqual(['shipped', 'refunded']);
+    expect(getAvailableTransitions('partially_refunded', 'shipped').map(t => t.to)).toEqual(['delivered', 'refunded']);
+    expect(getAvailableTransitions('partially_refunded', 'delivered').map(t => t.to)).toEqual(['refunded']);
+    expect(getAvailableTransitions('partially_refunded').map(t => t.to)).toEqual(['refunded']);
+    expect(() => buildStatusUpdate('partially_refunded', 'delivered', {}, 'delivered')).toThrow(InvalidTransitionError);
+  });
+
+  test('shipping requires a carrier and tracking number', () => {
+    const ship = findTransition('paid', 'shipped')!;
+    expect(ship.requires).toEqual(['carrier', 'tracking_number']);
+    expect(ship.flow).toBe('shipment');
+    expect(validateTransitionInput(ship, { carrier: 'UPS', tracking_number: '  ' })).toEqual({
+      tracking_number: 'Tracking number is required',
+    });
+  });
+
+  test('destructive transitions ask for confirmation', () => {
+    expect(findTransition('paid', 'cancelled')!.confirmation).toBeDefined();
+    expect(findTransition('paid', 'refunded')!.confirmation).toBeDefined();
+    expect(needsDialog(findTransition('pending', 'paid')!)).toBe(false);
+  });
+
+  test('bulk transitions are listed once per target status and never need input', () => {
+    expect(getBulkTransitions(['pending', 'paid']).map(t => t.to)).toEqual(['paid']);
+    expect(getBulkTransitions(['paid', 'shipped', 'partially_refunded']).map(t => t.to)).toEqual(['delivered']);
+    expect(getBulkTransitions(['delivered', 'returned'])).toEqual([]);
+    expect(getBulkTransitions(['cancelled'])).toEqual([]);
+  });
+
+  describe('buildStatusUpdate', () => {
+    test('builds a payload with trimmed required inputs', () => {
+      expect(buildStatusUpdate('paid', 'shipped', { carrier: ' DHL ', tracking_number: '123', reason: 'ignored' })).toEqual({
+        status: 'shipped',
+        carrier: 'DHL',
+        tracking_number: '123',
+      });
+    });
+
+    test('rejects transitions that are not allowed', () => {
+      expect(() => buildStatusUpdate('pending', 'delivered')).toThrow(InvalidTransitionError);
+      expect(() => buildStatusUpdate('cancelled', 'paid')).toThrow('Cannot change an order from Cancelled to Paid');
+    });
+
+    test('rejects missing required inputs', () => {
+      expect(() => buildStatusUpdate('paid', 'cancelled')).toThrow('Reason is required');
+    });
+  });
+});
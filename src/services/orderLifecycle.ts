@@ -0,0 +1,218 @@
+import { OrderStatus, OrderStatusUpdate } from '../types/order';
+
+// Order lifecycle: the statuses an order can be in, which transitions between
+// them staff may trigger, and what each transition needs before it can run.
+// Both the orders list and the order detail page build their actions from here.
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'pending',
+  'paid',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'refunded',
+  'partially_refunded',
+  'returned',
+];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+  partially_refunded: 'Partially Refunded',
+  returned: 'Returned',
+};
+
+export type TransitionField = 'carrier' | 'tracking_number' | 'reason';
+
+export type TransitionInput = Partial<Record<TransitionField, string>>;
+
+// How far the goods had got when a partial refund was issued. The status only
+// says the order was partially refunded, so shipping and delivery depend on this.
+export type FulfillmentStage = 'unshipped' | 'shipped' | 'delivered';
+
+export const TRANSITION_FIELD_LABELS: Record<TransitionField, string> = {
+  carrier: 'Carrier',
+  tracking_number: 'Tracking number',
+  reason: 'Reason',
+};
+
+export interface OrderTransition {
+  from: OrderStatus;
+  to: OrderStatus;
+  label: string;
+  tone: 'success' | 'primary' | 'danger';
+  requires: TransitionField[];
+  // Transitions with a confirmation prompt are irreversible or touch money
+  confirmation?: {
+    title: string;
+    message: string;
+  };
+  // Transitions that create a record run through that record's own dialog
+  // rather than a plain status change
+  flow?: 'shipment' | 'refund';
+  // Only offered when the order's goods are at this stage
+  stage?: FulfillmentStage;
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(public readonly from: OrderStatus, public readonly to: OrderStatus, message?: string) {
+    super(message || `Cannot change an order from ${ORDER_STATUS_LABELS[from]} to ${ORDER_STATUS_LABELS[to]}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+const cancel = (from: OrderStatus): OrderTransition => ({
+  from,
+  to: 'cancelled',
+  label: 'Cancel Order',
+  tone: 'danger',
+  requires: ['reason'],
+  confirmation: {
+    title: 'Cancel Order',
+    message: 'Cancelling an order cannot be undone. The customer will no longer receive it.',
+  },
+});
+
+const refund = (from: OrderStatus): OrderTransition => ({
+  from,
+  to: 'refunded',
+  label: 'Issue Refund',
+  tone: 'danger',
+  requires: ['reason'],
+  confirmation: {
+    title: 'Refund Order',
+    message: 'Marking this order as refunded records that the full amount was returned to the customer.',
+  },
+  flow: 'refund',
+});
+
+const ship = (from: OrderStatus): OrderTransition => ({
+  from,
+  to: 'shipped',
+  label: 'Mark as Shipped',
+  tone: 'primary',
+  requires: ['carrier', 'tracking_number'],
+  flow: 'shipment',
+});
+
+const deliver = (from: OrderStatus): OrderTransition => ({
+  from,
+  to: 'delivered',
+  label: 'Mark as Delivered',
+  tone: 'success',
+  requires: [],
+});
+
+const markReturned = (from: OrderStatus): OrderTransition => ({
+  from,
+  to: 'returned',
+  label: 'Mark as Returned',
+  tone: 'danger',
+  requires: ['reason'],
+  confirmation: {
+    title: 'Return Order',
+    message: 'Record that the customer sent this order back.',
+  },
+});
+
+export const ORDER_TRANSITIONS: OrderTransition[] = [
+  { from: 'pending', to: 'paid', label: 'Mark as Paid', tone: 'success', requires: [] },
+  cancel('pending'),
+  ship('paid'),
+  cancel('paid'),
+  refund('paid'),
+  deliver('shipped'),
+  markReturned('shipped'),
+  refund('shipped'),
+  markReturned('delivered'),
+  refund('delivered'),
+  { ...ship('partially_refunded'), stage: 'unshipped' },
+  { ...deliver('partially_refunded'), stage: 'shipped' },
+  refund('partially_refunded'),
+  refund('returned'),
+];
+
+export const TERMINAL_STATUSES: OrderStatus[] = ORDER_STATUSES.filter(
+  status => !ORDER_TRANSITIONS.some(transition => transition.from === status)
+);
+
+// Transitions tied to a fulfillment stage are left out when the stage is unknown
+const matchesStage = (transition: OrderTransition, stage?: FulfillmentStage) =>
+  !transition.stage || transition.stage === stage;
+
+export const getAvailableTransitions = (status: OrderStatus, stage?: FulfillmentStage): OrderTransition[] =>
+  ORDER_TRANSITIONS.filter(transition => transition.from === status && matchesStage(transition, stage));
+
+export const findTransition = (
+  from: OrderStatus,
+  to: OrderStatus,
+  stage?: FulfillmentStage
+): OrderTransition | undefined =>
+  ORDER_TRANSITIONS.find(
+    transition => transition.from === from && transition.to === to && matchesStage(transition, stage)
+  );
+
+export const canTransition = (from: OrderStatus, to: OrderStatus, stage?: FulfillmentStage): boolean =>
+  findTransition(from, to, stage) !== undefined;
+
+export const isTerminalStatus = (status: OrderStatus): boolean => TERMINAL_STATUSES.includes(status);
+
+export const needsDialog = (transition: OrderTransition): boolean =>
+  transition.requires.length > 0 || transition.confirmation !== undefined;
+
+const isBulkTransition = (transition: OrderTransition, statuses: OrderStatus[]) =>
+  statuses.includes(transition.from) && !needsDialog(transition) && !transition.stage;
+
+// Transitions that can be applied to several orders at once, one per target
+// status. Anything that needs input or a confirmation is decided order by
+// order: shipments and refunds are recorded per order, and a cancellation
+// reason belongs to one customer's order. The list does not know how far a
+// partially refunded order got, so stage-bound transitions are left out too.
+export const getBulkTransitions = (statuses: OrderStatus[]): OrderTransition[] =>
+  ORDER_TRANSITIONS.filter(
+    (transition, index) =>
+      isBulkTransition(transition, statuses) &&
+      ORDER_TRANSITIONS.findIndex(t => t.to === transition.to && isBulkTransition(t, statuses)) === index
+  );
+
+// Returns field-level error messages for the inputs a transition requires.
+export const validateTransitionInput = (
+  transition: OrderTransition,
+  input: TransitionInput
+): Partial<Record<TransitionField, string>> => {
+  const errors: Partial<Record<TransitionField, string>> = {};
+  transition.requires.forEach(field => {
+    if (!input[field]?.trim()) {
+      errors[field] = `${TRANSITION_FIELD_LABELS[field]} is required`;
+    }
+  });
+  return errors;
+};
+
+// Builds the status update payload, rejecting invalid jumps and missing inputs.
+export const buildStatusUpdate = (
+  from: OrderStatus,
+  to: OrderStatus,
+  input: TransitionInput = {},
+  stage?: FulfillmentStage
+): OrderStatusUpdate => {
+  const transition = findTransition(from, to, stage);
+  if (!transition) {
+    throw new InvalidTransitionError(from, to);
+  }
+
+  const errors = Object.values(validateTransitionInput(transition, input));
+  if (errors.length > 0) {
+    throw new InvalidTransitionError(from, to, errors.join(', '));
+  }
+
+  const update: OrderStatusUpdate = { status: to };
+  transition.requires.forEach(field => {
+    update[field] = input[field]!.trim();
+  });
+  return update;
+};
@@ -0,0 +1,118 @@
+import {
+  BUSINESS_DETAILS,
+  OrderDocument,
+  formatAddressLines,
+  formatDocumentCurrency,
+  formatDocumentDate,
+} from './orderDocuments';
+
+// Letter-size PDF layout in points. jsPDF is loaded on demand so it stays out
+// of the main bundle.
+const PAGE_MARGIN = 48;
+const LINE_HEIGHT = 16;
+
+type Pdf = import('jspdf').jsPDF;
+
+const drawDocument = (pdf: Pdf, doc: OrderDocument) => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const right = pageWidth - PAGE_MARGIN;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (lines = 1) => {
+    if (y + lines * LINE_HEIGHT > pageHeight - PAGE_MARGIN) {
+      pdf.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  // Header: business on the left, document title and reference on the right
+  pdf.setFont('helvetica', 'bold').setFontSize(16);
+  pdf.text(BUSINESS_DETAILS.name, PAGE_MARGIN, y);
+  pdf.setFontSize(20);
+  pdf.text(doc.title, right, y, { align: 'right' });
+  y += LINE_HEIGHT + 4;
+
+  pdf.setFont('helvetica', 'normal').setFontSize(10);
+  const businessLines = [
+    ...BUSINESS_DETAILS.addressLines,
+    BUSINESS_DETAILS.email,
+    doc.kind === 'invoice' && BUSINESS_DETAILS.taxId ? `Tax ID: ${BUSINESS_DETAILS.taxId}` : '',
+  ].filter(Boolean);
+  const metaLines = [
+    `Reference: ${doc.reference}`,
+    `Order: #${doc.order.id.slice(-8)}`,
+    `Date: ${formatDocumentDate(doc.issuedAt)}`,
+  ];
+  for (let i = 0; i < Math.max(businessLines.length, metaLines.length); i++) {
+    if (businessLines[i]) pdf.text(businessLines[i], PAGE_MARGIN, y);
+    if (metaLines[i]) pdf.text(metaLines[i], right, y, { align: 'right' });
+    y += LINE_HEIGHT;
+  }
+  y += LINE_HEIGHT;
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.text(doc.kind === 'invoice' ? 'Bill to' : 'Ship to', PAGE_MARGIN, y);
+  y += LINE_HEIGHT;
+  pdf.setFont('helvetica', 'normal');
+  formatAddressLines(doc.order).forEach(line => {
+    pdf.text(line, PAGE_MARGIN, y);
+    y += LINE_HEIGHT;
+  });
+  y += LINE_HEIGHT;
+
+  // Line items
+  const quantityX = doc.kind === 'invoice' ? right - 200 : right;
+  const priceX = right - 100;
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Item', PAGE_MARGIN, y);
+  pdf.text('Qty', quantityX, y, { align: 'right' });
+  if (doc.kind === 'invoice') {
+    pdf.text('Price', priceX, y, { align: 'right' });
+    pdf.text('Amount', right, y, { align: 'right' });
+  }
+  y += 6;
+  pdf.line(PAGE_MARGIN, y, right, y);
+  y += LINE_HEIGHT;
+
+  pdf.setFont('helvetica', 'normal');
+  const nameWidth = quantityX - PAGE_MARGIN - 40;
+  doc.items.forEach(item => {
+    const nameLines: string[] = pdf.splitTextToSize(item.product_name, nameWidth);
+    ensureSpace(nameLines.length);
+    pdf.text(nameLines, PAGE_MARGIN, y);
+    pdf.text(String(item.quantity), quantityX, y, { align: 'right' });
+    if (doc.kind === 'invoice') {
+      pdf.text(formatDocumentCurrency(item.price), priceX, y, { align: 'right' });
+      pdf.text(formatDocumentCurrency(item.subtotal), right, y, { align: 'right' });
+    }
+    y += nameLines.length * LINE_HEIGHT;
+  });
+
+  if (doc.kind === 'invoice') {
+    y += 4;
+    pdf.line(priceX - 60, y, right, y);
+    y += LINE_HEIGHT;
+    [...doc.totals, ...doc.taxLines].forEach((line, index) => {
+      ensureSpace();
+      const isTotal = index === doc.totals.length - 1;
+      pdf.setFont('helvetica', isTotal ? 'bold' : 'normal');
+      pdf.text(line.label, priceX, y, { align: 'right' });
+      pdf.text(formatDocumentCurrency(line.amount), right, y, { align: 'right' });
+      y += LINE_HEIGHT;
+    });
+  }
+};
+
+// Renders every document into a single PDF, each starting on a new page.
+export const downloadOrderDocumentsPdf = async (documents: OrderDocument[], filename: string) => {
+  const { jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ unit: 'pt', format: 'letter' });
+
+  documents.forEach((doc, index) => {
+    if (index > 0) pdf.addPage();
+    drawDocument(pdf, doc);
+  });
+
+  pdf.save(filename);
+};
@@ -0,0 +1,83 @@
+import { Product, ProductImage, ProductInput } from '../types';
+import { AdminApi } from './api';
+import { BulkResult, runBulkAction } from './bulkActions';
+import { getImageDetails } from './imageAltText';
+import { uploadImageFile } from './imageUploads';
+
+// A duplicate is a new product: it starts without stock and with its own SKUs
+// so it cannot be confused with the original in orders or imports.
+
+export const buildDuplicateInput = (product: Product, name = `${product.name} (Copy)`): ProductInput => ({
+  name,
+  description: product.description,
+  price: product.price,
+  category: product.category,
+  stock_quantity: 0,
+  ...(product.sku && { sku: `${product.sku}-COPY` }),
+  ...(product.low_stock_threshold !== undefined && { low_stock_threshold: product.low_stock_threshold }),
+  options: product.options,
+  variants: product.variants?.map(({ id, image_id, ...variant }) => ({
+    ...variant,
+    sku: `${variant.sku}-COPY`,
+    stock_quantity: 0,
+  })),
+});
+
+const fileNameFromUrl = (url: string) => {
+  const path = url.split('?')[0];
+  return decodeURIComponent(path.substring(path.lastIndexOf('/') + 1)) || 'image';
+};
+
+// Images are downloaded and uploaded again so the copy owns its files and
+// deleting either product's images leaves the other untouched. The image
+// host must allow the admin origin to read them (CORS).
+export const copyProductImages = (
+  api: AdminApi,
+  images: ProductImage[],
+  productId: string
+): Promise<BulkResult<ProductImage>[]> =>
+  runBulkAction([...images].sort((a, b) => a.display_order - b.display_order), async image => {
+    const download = await fetch(image.image_url);
+    if (!download.ok) {
+      throw new Error(`Download failed with status ${download.status}`);
+    }
+    const blob = await download.blob();
+    const file = new File([blob], fileNameFromUrl(image.image_url), {
+      type: blob.type || image.content_type || 'image/jpeg',
+    });
+
+    const copy = await uploadImageFile(api, productId, file, image.is_main);
+    if (image.focal_point) {
+      await api.images.setFocalPoint(productId, copy.id, image.focal_point);
+    }
+    const details = getImageDetails(image);
+    if (details) {
+      await api.images.updateDetails(productId, copy.id, details);
+    }
+  });
+
+export interface DuplicateOptions {
+  name: string;
+  includeImages: boolean;
+}
+
+export interface DuplicateResult {
+  product: Product;
+  // Images that could not be copied; the duplicate is kept without them
+  failedImages: BulkResult<ProductImage>[];
+}
+
+export const duplicateProduct = async (
+  api: AdminApi,
+  product: Product,
+  { name, includeImages }: DuplicateOptions
+): Promise<DuplicateResult> => {
+  const duplicate = await api.products.create(buildDuplicateInput(product, name));
+  if (!includeImages) {
+    return { product: duplicate, failedImages: [] };
+  }
+
+  const images = await api.images.list(product.id);
+  const results = await copyProductImages(api, images, duplicate.id);
+  return { product: duplicate, failedImages: results.filter(result => result.error) };
+};
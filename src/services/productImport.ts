@@ -0,0 +1,182 @@
+import { Category, Product, ProductInput } from '../types';
+import { parseCsv } from './csv';
+import { ProductFieldErrors, ProductFormValues, toProductFormValues, validateProductValues } from './productValidation';
+import { getTotalStock, hasVariants } from './productVariants';
+
+// Spreadsheet import for products: read a CSV/XLSX file, map its columns onto
+// product fields, and validate every row with the same rules as the product
+// form before anything is sent to the API.
+
+export type ImportField = 'id' | keyof ProductFormValues;
+
+export type ImportMode = 'create' | 'update';
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRow {
+  // 1-based row number in the file, counting the header row
+  rowNumber: number;
+  action: 'create' | 'update';
+  existing?: Product;
+  input: ProductInput | null;
+  errors: string[];
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'id', label: 'Product ID', aliases: ['id', 'product id', 'product_id'] },
+  { field: 'sku', label: 'SKU', aliases: ['sku', 'item code', 'reference'] },
+  { field: 'name', label: 'Name', aliases: ['name', 'product', 'product name', 'title'] },
+  { field: 'description', label: 'Description', aliases: ['description', 'details'] },
+  { field: 'price', label: 'Price', aliases: ['price', 'unit price', 'amount'] },
+  { field: 'category', label: 'Category', aliases: ['category', 'type'] },
+  { field: 'stock_quantity', label: 'Stock', aliases: ['stock', 'stock quantity', 'stock_quantity', 'quantity', 'qty'] },
+  {
+    field: 'low_stock_threshold',
+    label: 'Low-Stock Threshold',
+    aliases: ['low stock threshold', 'low_stock_threshold', 'reorder point', 'threshold'],
+  },
+];
+
+const FORM_FIELDS: (keyof ProductFormValues)[] = [
+  'name',
+  'description',
+  'price',
+  'category',
+  'stock_quantity',
+  'sku',
+  'low_stock_threshold',
+];
+
+const OPTIONAL_FIELDS: ImportField[] = ['sku', 'low_stock_threshold'];
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+
+const isCsv = (file: File) => file.type === 'text/csv' || file.name.toLowerCase().endsWith('.csv');
+
+// Cells are read as the text Excel displays, so prices and dates keep their formatting
+const readWorkbook = async (file: File): Promise<string[][]> => {
+  const ExcelJS = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    throw new Error('The file does not contain any sheets');
+  }
+
+  const table: string[][] = [];
+  for (let rowNumber = 1; rowNumber <= sheet.rowCount; rowNumber++) {
+    const row = sheet.getRow(rowNumber);
+    table.push(Array.from({ length: sheet.columnCount }, (_, index) => row.getCell(index + 1).text ?? ''));
+  }
+  return table;
+};
+
+export const readSpreadsheet = async (file: File): Promise<Spreadsheet> => {
+  if (file.name.toLowerCase().endsWith('.xls')) {
+    throw new Error('Legacy .xls files are not supported; save the sheet as .xlsx or CSV');
+  }
+  const [headers = [], ...rows] = isCsv(file) ? parseCsv(await file.text()) : await readWorkbook(file);
+  return {
+    headers,
+    rows: rows.filter(row => row.some(cell => cell.trim() !== '')),
+  };
+};
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex(header => aliases.map(normalizeHeader).includes(header));
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+};
+
+// Columns a mapping must cover before rows can be validated
+export const getMissingFields = (mapping: ColumnMapping, mode: ImportMode): ImportField[] =>
+  mode === 'update'
+    ? (mapping.id === undefined && mapping.sku === undefined ? ['id'] : [])
+    : FORM_FIELDS.filter(field => !OPTIONAL_FIELDS.includes(field) && mapping[field] === undefined) as ImportField[];
+
+// Sheets may name a category by its slug or its display name
+const toCategorySlug = (value: string, categories: Category[]) => {
+  const normalized = value.toLowerCase();
+  const match = categories.find(
+    category => category.slug === normalized || category.name.toLowerCase() === normalized
+  );
+  return match ? match.slug : normalized;
+};
+
+// In update mode, unmapped columns keep the product's current values so a
+// sheet with just SKU and stock can be used to restock.
+export const buildImportRows = (
+  sheet: Spreadsheet,
+  mapping: ColumnMapping,
+  mode: ImportMode,
+  categories: Category[],
+  existingProducts: Product[] = []
+): ImportRow[] => {
+  const byId = new Map(existingProducts.map(product => [product.id, product]));
+  const bySku = new Map(
+    existingProducts.filter(product => product.sku).map(product => [product.sku!.toLowerCase(), product])
+  );
+  const seenKeys = new Set<string>();
+
+  return sheet.rows.map((row, index) => {
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? undefined : (row[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+    const id = cell('id');
+    const sku = cell('sku');
+
+    let existing: Product | undefined;
+    if (mode === 'update') {
+      existing = (id && byId.get(id)) || (sku ? bySku.get(sku.toLowerCase()) : undefined);
+      if (!id && !sku) {
+        errors.push('Product ID or SKU is required to update');
+      } else if (!existing) {
+        errors.push(`No product found with ${id ? `ID ${id}` : `SKU ${sku}`}`);
+      }
+    } else if (sku && bySku.has(sku.toLowerCase())) {
+      errors.push(`SKU ${sku} is already used by another product`);
+    }
+
+    const key = existing?.id || (sku && `sku:${sku.toLowerCase()}`);
+    if (key && seenKeys.has(key)) {
+      errors.push('This product appears more than once in the file');
+    }
+    if (key) seenKeys.add(key);
+
+    const base: ProductFormValues = existing
+      ? toProductFormValues(existing)
+      : { name: '', description: '', price: '', category: '', stock_quantity: '' };
+    const values = { ...base };
+    FORM_FIELDS.forEach(field => {
+      const value = cell(field);
+      if (value !== undefined) {
+        values[field] = field === 'category' ? toCategorySlug(value, categories) : value;
+      }
+    });
+
+    const { input, errors: fieldErrors } = validateProductValues(values, categories);
+    errors.push(...Object.values(fieldErrors as ProductFieldErrors).filter((e): e is string => Boolean(e)));
+    if (existing && hasVariants(existing) && input && input.stock_quantity !== getTotalStock(existing)) {
+      errors.push('Stock of products with variants must be adjusted per variant');
+    }
+
+    return {
+      rowNumber: index + 2,
+      action: mode,
+      existing,
+      input: errors.length === 0 ? input : null,
+      errors,
+    };
+  });
+};
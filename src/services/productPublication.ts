@@ -0,0 +1,54 @@
+import { Product, ProductImage, ProductStatus } from '../types';
+
+// Product publication: a product is created as a draft, can be scheduled to go
+// live at a given time or published straight away, and is archived once it is
+// no longer sold. Publishing is only offered once the checklist passes.
+
+export const PRODUCT_STATUSES: ProductStatus[] = ['draft', 'scheduled', 'published', 'archived'];
+
+export const PRODUCT_STATUS_LABELS: Record<ProductStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+export const MIN_DESCRIPTION_LENGTH = 50;
+
+export interface ChecklistItem {
+  id: 'main_image' | 'description' | 'price';
+  label: string;
+  passed: boolean;
+}
+
+export const getPublishChecklist = (
+  product: Pick<Product, 'description' | 'price'>,
+  images: ProductImage[]
+): ChecklistItem[] => [
+  {
+    id: 'main_image',
+    label: 'Has a main image',
+    passed: images.some(image => image.is_main),
+  },
+  {
+    id: 'description',
+    label: `Description is at least ${MIN_DESCRIPTION_LENGTH} characters`,
+    passed: product.description.trim().length >= MIN_DESCRIPTION_LENGTH,
+  },
+  {
+    id: 'price',
+    label: 'Price is set',
+    passed: product.price > 0,
+  },
+];
+
+export const isReadyToPublish = (checklist: ChecklistItem[]) => checklist.every(item => item.passed);
+
+// <input type="datetime-local"> works in local time without a zone
+export const toDateTimeInput = (iso: string) => {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const fromDateTimeInput = (value: string) => new Date(value).toISOString();
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ProductTemplate } from '../types';
+import { useAdminApi } from './api';
+import { ProductFormValues } from './productValidation';
+
+// Saved starting points for new products. A template fills in the category
+// and the description, with the care instructions as a closing paragraph.
+
+export const buildTemplateDescription = (template: Pick<ProductTemplate, 'description' | 'care_instructions'>): string =>
+  [
+    template.description.trim(),
+    template.care_instructions.trim() && `Care instructions:\n${template.care_instructions.trim()}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+export const applyProductTemplate = <T extends ProductFormValues>(values: T, template: ProductTemplate): T => ({
+  ...values,
+  category: template.category || values.category,
+  description: buildTemplateDescription(template),
+});
+
+export const useProductTemplates = () => {
+  const api = useAdminApi();
+  const [templates, setTemplates] = useState<ProductTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const reload = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      setTemplates(await api.productTemplates.list());
+    } catch (err: any) {
+      console.error('Error fetching product templates:', err);
+      setError(err.message || 'Failed to fetch product templates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { templates, isLoading, error, reload, setTemplates };
+};
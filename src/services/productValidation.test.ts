@@ -0,0 +1,128 @@
+import { ApiRequestError } from '../contexts/AuthContext';
+import { Category } from '../types';
+import {
+  PRODUCT_FIELD_MAX_LENGTHS,
+  ProductFormValues,
+  mapProductServerErrors,
+  validateProductField,
+  validateProductValues,
+} from './productValidation';
+
+const rings: Category = {
+  id: 'c1',
+  slug: 'rings',
+  name: 'Rings',
+  position: 0,
+  archived: false,
+  inherited_low_stock_threshold: 5,
+  product_count: 0,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const values: ProductFormValues = {
+  name: ' Gold Ring ',
+  description: 'A plain gold band',
+  price: '129.90',
+  category: 'rings',
+  stock_quantity: '4',
+  sku: '',
+  low_stock_threshold: '',
+};
+
+describe('product validation', () => {
+  test('valid values are trimmed and parsed into product input', () => {
+    expect(validateProductValues(values, [rings])).toEqual({
+      input: {
+        name: 'Gold Ring',
+        description: 'A plain gold band',
+        price: 129.9,
+        category: 'rings',
+        stock_quantity: 4,
+      },
+      errors: {},
+    });
+  });
+
+  test('optional sku and threshold are included when filled in', () => {
+    const { input } = validateProductValues({ ...values, sku: 'RING-01', low_stock_threshold: '2' }, [rings]);
+    expect(input).toMatchObject({ sku: 'RING-01', low_stock_threshold: 2 });
+  });
+
+  test('required fields report an error each', () => {
+    const { input, errors } = validateProductValues(
+      { ...values, name: '  ', description: '', price: '', stock_quantity: '', category: '' },
+      [rings]
+    );
+    expect(input).toBeNull();
+    expect(errors).toEqual({
+      name: 'Name is required',
+      description: 'Description is required',
+      price: 'Price is required',
+      stock_quantity: 'Stock quantity is required',
+      category: 'Category is required',
+    });
+  });
+
+  test('prices allow at most two decimals and a maximum amount', () => {
+    expect(validateProductField('price', '10')).toBeUndefined();
+    expect(validateProductField('price', '10.5')).toBeUndefined();
+    expect(validateProductField('price', '10.999')).toMatch(/at most 2 decimals/);
+    expect(validateProductField('price', '-1')).toMatch(/positive amount/);
+    expect(validateProductField('price', 'abc')).toMatch(/positive amount/);
+    expect(validateProductField('price', '0')).toMatch(/positive amount/);
+    expect(validateProductField('price', '0.00')).toMatch(/positive amount/);
+    expect(validateProductField('price', '1000000')).toMatch(/at most/);
+  });
+
+  test('prices are rounded to whole cents', () => {
+    expect(validateProductValues({ ...values, price: '0.29' }, [rings]).input?.price).toBe(0.29);
+    expect(validateProductValues({ ...values, price: '1.10' }, [rings]).input?.price).toBe(1.1);
+  });
+
+  test('whole numbers are required for stock and threshold', () => {
+    expect(validateProductField('stock_quantity', '1.5')).toMatch(/whole number/);
+    expect(validateProductField('low_stock_threshold', '-2')).toMatch(/whole number/);
+    expect(validateProductField('low_stock_threshold', '')).toBeUndefined();
+  });
+
+  test('text fields have maximum lengths', () => {
+    expect(validateProductField('name', 'x'.repeat(PRODUCT_FIELD_MAX_LENGTHS.name))).toBeUndefined();
+    expect(validateProductField('name', 'x'.repeat(PRODUCT_FIELD_MAX_LENGTHS.name + 1))).toBe(
+      `Name must be at most ${PRODUCT_FIELD_MAX_LENGTHS.name} characters`
+    );
+    expect(validateProductField('sku', 'x'.repeat(PRODUCT_FIELD_MAX_LENGTHS.sku + 1))).toMatch(/at most/);
+    expect(validateProductField('sku', 'RING 01')).toMatch(/letters, numbers/);
+  });
+
+  test('the category must be one of the given categories', () => {
+    const { errors } = validateProductValues({ ...values, category: 'watches' }, [rings]);
+    expect(errors.category).toBe('Category must be one of Rings');
+  });
+
+  describe('mapProductServerErrors', () => {
+    test('known fields are mapped onto the form', () => {
+      const err = new ApiRequestError('Validation failed', 422, { sku: 'SKU is already in use' });
+      expect(mapProductServerErrors(err)).toEqual({
+        errors: { sku: 'SKU is already in use' },
+        message: 'Please correct the highlighted fields',
+      });
+    });
+
+    test('unknown fields are reported in the general message', () => {
+      const err = new ApiRequestError('Validation failed', 422, {
+        price: 'Price is too high',
+        'variants.0.sku': 'Variant SKU is already in use',
+      });
+      expect(mapProductServerErrors(err)).toEqual({
+        errors: { price: 'Price is too high' },
+        message: 'Variant SKU is already in use',
+      });
+    });
+
+    test('other errors keep their message', () => {
+      expect(mapProductServerErrors(new Error('Network down'))).toEqual({ errors: {}, message: 'Network down' });
+      expect(mapProductServerErrors(undefined)).toEqual({ errors: {}, message: 'Failed to save product' });
+    });
+  });
+});
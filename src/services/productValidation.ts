@@ -0,0 +1,160 @@
+import { ApiRequestError } from '../contexts/AuthContext';
+import { Category, Product, ProductInput } from '../types';
+
+// Validation rules for product data entered by staff, shared by the product
+// form and the spreadsheet import so both accept exactly the same values.
+
+// Raw text as typed into the form or read from a spreadsheet cell
+export type ProductFormValues = Record<'name' | 'description' | 'price' | 'category' | 'stock_quantity', string> & {
+  sku?: string;
+  // Empty to use the category's threshold
+  low_stock_threshold?: string;
+};
+
+export type ProductFormField = keyof ProductFormValues;
+
+export type ProductFieldErrors = Partial<Record<keyof ProductInput, string>>;
+
+export const PRODUCT_FIELD_MAX_LENGTHS = {
+  name: 120,
+  description: 5000,
+  sku: 64,
+};
+
+// Prices are stored in cents, so anything finer than a cent is rejected
+export const MAX_PRICE = 999999.99;
+
+const PRICE_PATTERN = /^\d+(\.\d{1,2})?$/;
+const INTEGER_PATTERN = /^\d+$/;
+const SKU_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// A rule returns an error message, or undefined when the value passes.
+// Rules other than `required` only look at values that were filled in.
+type FieldRule = (value: string) => string | undefined;
+
+const required = (label: string): FieldRule => value =>
+  value ? undefined : `${label} is required`;
+
+const maxLength = (label: string, max: number): FieldRule => value =>
+  value.length > max ? `${label} must be at most ${max} characters` : undefined;
+
+const matches = (pattern: RegExp, message: string): FieldRule => value =>
+  value && !pattern.test(value) ? message : undefined;
+
+const atMost = (max: number, message: string): FieldRule => value =>
+  value && parseFloat(value) > max ? message : undefined;
+
+const above = (min: number, message: string): FieldRule => value =>
+  value && parseFloat(value) <= min ? message : undefined;
+
+export const PRODUCT_FORM_SCHEMA: Record<ProductFormField, FieldRule[]> = {
+  name: [required('Name'), maxLength('Name', PRODUCT_FIELD_MAX_LENGTHS.name)],
+  description: [required('Description'), maxLength('Description', PRODUCT_FIELD_MAX_LENGTHS.description)],
+  price: [
+    required('Price'),
+    matches(PRICE_PATTERN, 'Price must be a positive amount with at most 2 decimals'),
+    above(0, 'Price must be a positive amount'),
+    atMost(MAX_PRICE, `Price must be at most ${MAX_PRICE.toLocaleString('en-US')}`),
+  ],
+  category: [required('Category')],
+  stock_quantity: [
+    required('Stock quantity'),
+    matches(INTEGER_PATTERN, 'Stock quantity must be a whole number of 0 or more'),
+  ],
+  sku: [
+    maxLength('SKU', PRODUCT_FIELD_MAX_LENGTHS.sku),
+    matches(SKU_PATTERN, 'SKU may only contain letters, numbers, dashes and underscores'),
+  ],
+  low_stock_threshold: [matches(INTEGER_PATTERN, 'Low-stock threshold must be a whole number of 0 or more')],
+};
+
+export const emptyProductFormValues: Required<ProductFormValues> = {
+  name: '',
+  description: '',
+  price: '',
+  category: '',
+  stock_quantity: '',
+  sku: '',
+  low_stock_threshold: '',
+};
+
+export const toProductFormValues = (product: Product): Required<ProductFormValues> => ({
+  name: product.name,
+  description: product.description,
+  price: product.price.toFixed(2),
+  category: product.category,
+  stock_quantity: String(product.stock_quantity),
+  sku: product.sku || '',
+  low_stock_threshold: product.low_stock_threshold?.toString() ?? '',
+});
+
+export const validateProductField = (field: ProductFormField, value: string | undefined): string | undefined => {
+  const trimmed = (value || '').trim();
+  for (const rule of PRODUCT_FORM_SCHEMA[field]) {
+    const error = rule(trimmed);
+    if (error) return error;
+  }
+  return undefined;
+};
+
+export const validateProductValues = (
+  values: ProductFormValues,
+  // Categories a product may be placed in, normally the active ones
+  categories: Category[]
+): { input: ProductInput | null; errors: ProductFieldErrors } => {
+  const errors: ProductFieldErrors = {};
+
+  (Object.keys(PRODUCT_FORM_SCHEMA) as ProductFormField[]).forEach(field => {
+    const error = validateProductField(field, values[field]);
+    if (error) errors[field] = error;
+  });
+
+  if (!errors.category && !categories.some(category => category.slug === values.category)) {
+    errors.category = `Category must be one of ${categories.map(category => category.name).join(', ')}`;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { input: null, errors };
+  }
+
+  const sku = values.sku?.trim();
+  const threshold = values.low_stock_threshold?.trim();
+
+  return {
+    input: {
+      name: values.name.trim(),
+      description: values.description.trim(),
+      // Rounded to whole cents so binary floating point never leaks into the stored price
+      price: Math.round(parseFloat(values.price.trim()) * 100) / 100,
+      category: values.category,
+      stock_quantity: parseInt(values.stock_quantity.trim(), 10),
+      ...(sku && { sku }),
+      ...(threshold && { low_stock_threshold: parseInt(threshold, 10) }),
+    },
+    errors,
+  };
+};
+
+// Splits an error from saving a product into messages for the form fields the
+// backend rejected and a general message for everything else.
+export const mapProductServerErrors = (err: unknown): { errors: ProductFieldErrors; message: string } => {
+  const errors: ProductFieldErrors = {};
+  const otherMessages: string[] = [];
+
+  if (err instanceof ApiRequestError) {
+    Object.entries(err.fieldErrors).forEach(([field, message]) => {
+      if (field in PRODUCT_FORM_SCHEMA) {
+        errors[field as ProductFormField] = message;
+      } else {
+        otherMessages.push(message);
+      }
+    });
+  }
+
+  const fallback = err instanceof Error && err.message ? err.message : 'Failed to save product';
+  const message = otherMessages.length > 0
+    ? otherMessages.join('. ')
+    : Object.keys(errors).length > 0 ? 'Please correct the highlighted fields' : fallback;
+
+  return { errors, message };
+};
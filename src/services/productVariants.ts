@@ -0,0 +1,99 @@
+import { Product, ProductOption, ProductVariant, VariantAxis } from '../types';
+
+// Product variants: the option axes a product varies along, the variant
+// matrix generated from them, and stock/price figures that account for it.
+
+export const VARIANT_AXES: VariantAxis[] = ['size', 'metal', 'length', 'stone'];
+
+export const VARIANT_AXIS_LABELS: Record<VariantAxis, string> = {
+  size: 'Size',
+  metal: 'Metal',
+  length: 'Length',
+  stone: 'Stone',
+};
+
+export const variantKey = (options: ProductVariant['options']): string =>
+  VARIANT_AXES.filter(axis => options[axis] !== undefined)
+    .map(axis => `${axis}=${options[axis]}`)
+    .join('|');
+
+export const getVariantLabel = (variant: ProductVariant): string =>
+  VARIANT_AXES.map(axis => variant.options[axis]).filter(Boolean).join(' / ');
+
+const skuPart = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]+/g, '').slice(0, 6);
+
+export const skuFromName = (name: string): string =>
+  name.toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 12);
+
+export const suggestVariantSku = (baseSku: string, options: ProductVariant['options']): string =>
+  [baseSku, ...VARIANT_AXES.map(axis => options[axis]).filter((v): v is string => Boolean(v)).map(skuPart)]
+    .filter(Boolean)
+    .join('-');
+
+// Every combination of the option values. Variants that already exist for a
+// combination keep their SKU, price, stock and image; new ones start empty.
+export const generateVariantMatrix = (
+  options: ProductOption[],
+  existing: ProductVariant[],
+  baseSku: string
+): ProductVariant[] => {
+  const axes = options.filter(option => option.values.length > 0);
+  if (axes.length === 0) return [];
+
+  const combinations = axes.reduce<ProductVariant['options'][]>(
+    (partials, option) => partials.flatMap(partial => option.values.map(value => ({ ...partial, [option.axis]: value }))),
+    [{}]
+  );
+  const existingByKey = new Map(existing.map(variant => [variantKey(variant.options), variant]));
+
+  return combinations.map(combination => existingByKey.get(variantKey(combination)) || {
+    options: combination,
+    sku: suggestVariantSku(baseSku, combination),
+    stock_quantity: 0,
+  });
+};
+
+export const hasVariants = (product: Pick<Product, 'variants'>): boolean =>
+  (product.variants?.length ?? 0) > 0;
+
+// With variants, stock lives on the variants and the product total is their sum
+export const getTotalStock = (product: Pick<Product, 'stock_quantity' | 'variants'>): number =>
+  hasVariants(product)
+    ? product.variants!.reduce((sum, variant) => sum + variant.stock_quantity, 0)
+    : product.stock_quantity;
+
+export const getOutOfStockVariants = (product: Pick<Product, 'variants'>): ProductVariant[] =>
+  (product.variants || []).filter(variant => variant.stock_quantity <= 0);
+
+export const getPriceRange = (product: Pick<Product, 'price' | 'variants'>): [number, number] => {
+  const prices = hasVariants(product)
+    ? product.variants!.map(variant => variant.price ?? product.price)
+    : [product.price];
+  return [Math.min(...prices), Math.max(...prices)];
+};
+
+// Returns one message per problem; an empty list means the variants can be saved.
+export const validateVariants = (variants: ProductVariant[]): string[] => {
+  const errors: string[] = [];
+  const skus = new Set<string>();
+
+  variants.forEach(variant => {
+    const label = getVariantLabel(variant);
+    const sku = variant.sku.trim().toLowerCase();
+    if (!sku) {
+      errors.push(`${label}: SKU is required`);
+    } else if (skus.has(sku)) {
+      errors.push(`${label}: SKU ${variant.sku} is used more than once`);
+    }
+    skus.add(sku);
+
+    if (!Number.isInteger(variant.stock_quantity) || variant.stock_quantity < 0) {
+      errors.push(`${label}: stock must be a whole number of 0 or more`);
+    }
+    if (variant.price !== undefined && (variant.price < 0 || Math.abs(Math.round(variant.price * 100) - variant.price * 100) > 1e-6)) {
+      errors.push(`${label}: price must be a positive amount with at most 2 decimals`);
+    }
+  });
+
+  return errors;
+};
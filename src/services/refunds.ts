@@ -0,0 +1,51 @@
+import { OrderSummary, Refund, RefundItem } from '../types/order';
+
+// Helpers for partial refunds: how much of each order line can still be
+// refunded, what a selection is worth, and revenue net of refunds.
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// Quantity of each order item already refunded, keyed by order item id.
+export const getRefundedQuantities = (refunds: Refund[]): Record<string, number> =>
+  refunds.reduce<Record<string, number>>((totals, refund) => {
+    refund.items.forEach(item => {
+      totals[item.order_item_id] = (totals[item.order_item_id] || 0) + item.quantity;
+    });
+    return totals;
+  }, {});
+
+export const getRefundableItems = (order: OrderSummary, refunds: Refund[]): RefundItem[] => {
+  const refunded = getRefundedQuantities(refunds);
+  return order.items
+    .map(item => ({ order_item_id: item.id, quantity: item.quantity - (refunded[item.id] || 0) }))
+    .filter(item => item.quantity > 0);
+};
+
+export const getRefundedTotal = (refunds: Refund[]): number =>
+  roundCurrency(refunds.reduce((sum, refund) => sum + refund.amount, 0));
+
+// Money that can still go back to the customer, including shipping
+export const getRefundableAmount = (order: OrderSummary, refunds: Refund[]): number =>
+  Math.max(0, roundCurrency(order.total_amount - getRefundedTotal(refunds)));
+
+export const calculateItemsAmount = (order: OrderSummary, items: RefundItem[]): number =>
+  roundCurrency(items.reduce((sum, item) => {
+    const line = order.items.find(i => i.id === item.order_item_id);
+    return sum + (line ? line.price * item.quantity : 0);
+  }, 0));
+
+// What an order contributes to revenue: nothing if cancelled, otherwise its
+// total less anything refunded. Orders fully refunded before refund amounts
+// were recorded count as zero.
+export const getNetOrderAmount = (order: OrderSummary): number => {
+  if (order.status === 'cancelled') return 0;
+  const refunded = order.refunded_amount ?? (order.status === 'refunded' ? order.total_amount : 0);
+  return Math.max(0, roundCurrency(order.total_amount - refunded));
+};
+
+export const getRevenueSummary = (orders: OrderSummary[]) => {
+  const counted = orders.filter(order => order.status !== 'cancelled');
+  const gross = roundCurrency(counted.reduce((sum, order) => sum + order.total_amount, 0));
+  const net = roundCurrency(counted.reduce((sum, order) => sum + getNetOrderAmount(order), 0));
+  return { gross, net, refunded: roundCurrency(gross - net) };
+};
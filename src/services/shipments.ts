@@ -0,0 +1,45 @@
+import { OrderSummary, Shipment, ShipmentItem } from '../types/order';
+import { FulfillmentStage } from './orderLifecycle';
+
+// Helpers for split shipments: how much of each order line is still waiting to
+// be shipped, and where a parcel can be tracked.
+
+export const CARRIERS = ['UPS', 'USPS', 'FedEx', 'DHL', 'Royal Mail', 'Other'];
+
+const trackingUrls: Record<string, (trackingNumber: string) => string> = {
+  UPS: n => `https://www.ups.com/track?tracknum=${n}`,
+  USPS: n => `https://tools.usps.com/go/TrackConfirmAction?tLabels=${n}`,
+  FedEx: n => `https://www.fedex.com/fedextrack/?trknbr=${n}`,
+  DHL: n => `https://www.dhl.com/en/express/tracking.html?AWB=${n}`,
+  'Royal Mail': n => `https://www.royalmail.com/track-your-item#/tracking-results/${n}`,
+};
+
+export const getTrackingUrl = (carrier: string, trackingNumber: string): string | undefined =>
+  trackingUrls[carrier]?.(encodeURIComponent(trackingNumber));
+
+// Quantity of each order item already assigned to a shipment, keyed by order item id.
+export const getShippedQuantities = (shipments: Shipment[]): Record<string, number> =>
+  shipments.reduce<Record<string, number>>((totals, shipment) => {
+    shipment.items.forEach(item => {
+      totals[item.order_item_id] = (totals[item.order_item_id] || 0) + item.quantity;
+    });
+    return totals;
+  }, {});
+
+export const getUnshippedItems = (order: OrderSummary, shipments: Shipment[]): ShipmentItem[] => {
+  const shipped = getShippedQuantities(shipments);
+  return order.items
+    .map(item => ({ order_item_id: item.id, quantity: item.quantity - (shipped[item.id] || 0) }))
+    .filter(item => item.quantity > 0);
+};
+
+export const isFullyShipped = (order: OrderSummary, shipments: Shipment[]): boolean =>
+  getUnshippedItems(order, shipments).length === 0;
+
+export const isFullyDelivered = (order: OrderSummary, shipments: Shipment[]): boolean =>
+  isFullyShipped(order, shipments) && shipments.every(shipment => shipment.status === 'delivered');
+
+export const getFulfillmentStage = (order: OrderSummary, shipments: Shipment[]): FulfillmentStage => {
+  if (isFullyDelivered(order, shipments)) return 'delivered';
+  return isFullyShipped(order, shipments) ? 'shipped' : 'unshipped';
+};
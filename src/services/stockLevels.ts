@@ -0,0 +1,40 @@
+import { Category, Product } from '../types';
+import { getTotalStock } from './productVariants';
+
+// Low-stock alerts. A product's threshold is its own if set, otherwise the
+// nearest category (walking up through parent categories) that has one, and
+// finally the store-wide default. The backend resolves it and filters by it,
+// so the values it returns are used here rather than worked out again.
+
+export type StockLevel = 'out' | 'low' | 'ok';
+
+// The backend's store default, for product responses that leave out the resolved threshold
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+export const getCategoryThreshold = (category: Category): number =>
+  category.low_stock_threshold ?? category.inherited_low_stock_threshold;
+
+export const getStockLevel = (product: Product): StockLevel => {
+  const stock = getTotalStock(product);
+  if (stock <= 0) return 'out';
+  return stock <= product.effective_low_stock_threshold ? 'low' : 'ok';
+};
+
+export interface ReorderItem {
+  product: Product;
+  stock: number;
+  threshold: number;
+  reorderQuantity: number;
+}
+
+// Suggested orders bring stock back up to twice the threshold. Out-of-stock
+// products come first, then those closest to running out.
+export const getReorderList = (products: Product[]): ReorderItem[] =>
+  products
+    .filter(product => getStockLevel(product) !== 'ok')
+    .map(product => {
+      const stock = getTotalStock(product);
+      const threshold = product.effective_low_stock_threshold;
+      return { product, stock, threshold, reorderQuantity: Math.max(1, threshold * 2 - stock) };
+    })
+    .sort((a, b) => a.stock / Math.max(a.threshold, 1) - b.stock / Math.max(b.threshold, 1));
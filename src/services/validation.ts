@@ -0,0 +1,79 @@
+// Runtime validation for API responses.
+// Each parser takes an unknown value plus the path it was found at and either
+// returns a typed value or throws an ApiValidationError describing the mismatch.
+
+export class ApiValidationError extends Error {
+  constructor(public readonly path: string, public readonly expected: string, public readonly received: unknown) {
+    super(`Unexpected API response: expected ${expected} at ${path}, got ${describe(received)}`);
+    this.name = 'ApiValidationError';
+  }
+}
+
+export type Parser<T> = (value: unknown, path: string) => T;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const record = (value: unknown, path: string): Record<string, unknown> => {
+  if (!isRecord(value)) {
+    throw new ApiValidationError(path, 'object', value);
+  }
+  return value;
+};
+
+export const string: Parser<string> = (value, path) => {
+  if (typeof value !== 'string') {
+    throw new ApiValidationError(path, 'string', value);
+  }
+  return value;
+};
+
+export const number: Parser<number> = (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new ApiValidationError(path, 'number', value);
+  }
+  return value;
+};
+
+export const boolean: Parser<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') {
+    throw new ApiValidationError(path, 'boolean', value);
+  }
+  return value;
+};
+
+export const oneOf = <T extends string>(allowed: readonly T[]): Parser<T> => (value, path) => {
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new ApiValidationError(path, `one of ${allowed.join(' | ')}`, value);
+  }
+  return value as T;
+};
+
+// Missing and null values are both treated as absent.
+export const optional = <T>(parser: Parser<T>): Parser<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : parser(value, path);
+
+export const array = <T>(parser: Parser<T>): Parser<T[]> => (value, path) => {
+  if (!Array.isArray(value)) {
+    throw new ApiValidationError(path, 'array', value);
+  }
+  return value.map((item, index) => parser(item, `${path}[${index}]`));
+};
+
+type Shape<T> = { [K in keyof T]-?: Parser<T[K]> };
+
+// Builds a parser for an object with the given fields. Unknown fields are dropped.
+export const object = <T>(shape: Shape<T>): Parser<T> => (value, path) => {
+  const source = record(value, path);
+  const result = {} as T;
+  (Object.keys(shape) as (keyof T)[]).forEach(key => {
+    result[key] = shape[key](source[key as string], `${path}.${String(key)}`);
+  });
+  return result;
+};
@@ -1,24 +1,194 @@
+import { OrderStatus } from './order';
+
 export interface Product {
   id: string;
   name: string;
   description: string;
   price: number;
-  category: 'rings' | 'earrings' | 'bracelets' | 'necklaces';
+  // Slug of the product's category
+  category: string;
   stock_quantity: number;
+  // Stock keeping unit; optional until every product has been given one
+  sku?: string;
+  options?: ProductOption[];
+  variants?: ProductVariant[];
+  status: ProductStatus;
+  // Overrides the category's low-stock threshold
+  low_stock_threshold?: number;
+  // The threshold that applies, resolved by the backend and used by its stock_alert filter
+  effective_low_stock_threshold: number;
+  // When a scheduled product goes live; set by the backend on publishing
+  publish_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Only published products are visible in the shop
+export type ProductStatus = 'draft' | 'scheduled' | 'published' | 'archived';
+
+export interface ProductPublicationUpdate {
+  status: ProductStatus;
+  // Required when scheduling
+  publish_at?: string;
+}
+
+export type ProductInput = Pick<
+  Product,
+  | 'name'
+  | 'description'
+  | 'price'
+  | 'category'
+  | 'stock_quantity'
+  | 'sku'
+  | 'options'
+  | 'variants'
+  | 'low_stock_threshold'
+>;
+
+// Stock is left out of updates; it only changes through the inventory ledger
+export type ProductUpdateInput = Omit<ProductInput, 'stock_quantity' | 'variants'> & {
+  variants?: Omit<ProductVariant, 'stock_quantity'>[];
+};
+
+export interface Category {
+  id: string;
+  slug: string;
+  name: string;
+  // Top-level categories have no parent
+  parent_id?: string;
+  // Sort order among siblings
+  position: number;
+  archived: boolean;
+  // Default for products in this category and its subcategories
+  low_stock_threshold?: number;
+  // What applies without its own threshold: the nearest parent's, else the store default
+  inherited_low_stock_threshold: number;
+  product_count: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface CategoryInput {
+  name: string;
+  parent_id?: string | null;
+  low_stock_threshold?: number | null;
+}
+
+// Starting point for new products that share a category and boilerplate text
+export interface ProductTemplate {
+  id: string;
+  name: string;
+  // Slug of the category new products are placed in
+  category: string;
+  description: string;
+  care_instructions: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProductTemplateInput = Pick<ProductTemplate, 'name' | 'category' | 'description' | 'care_instructions'>;
+
+export type VariantAxis = 'size' | 'metal' | 'length' | 'stone';
+
+// An axis the product varies along and the values offered for it
+export interface ProductOption {
+  axis: VariantAxis;
+  values: string[];
+}
+
+export interface ProductVariant {
+  // Missing until the variant has been saved
+  id?: string;
+  options: Partial<Record<VariantAxis, string>>;
+  sku: string;
+  // Overrides the product price when set
+  price?: number;
+  stock_quantity: number;
+  image_id?: string;
+}
+
 export interface ProductImage {
   id: string;
   product_id: string;
   image_url: string;
   is_main: boolean;
   display_order: number;
+  content_type?: string;
+  file_size?: number;
+  // The part of the picture storefront crops keep in frame
+  focal_point?: FocalPoint;
+  alt_text?: string;
+  // Shown under the image in the storefront gallery
+  caption?: string;
   created_at: string;
   updated_at: string;
 }
 
+// Null clears the field
+export interface ProductImageDetailsInput {
+  alt_text: string | null;
+  caption: string | null;
+}
+
+// Position within an image as fractions of its width and height, from the top left
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+// An image as listed in the media library, across all products
+export interface MediaImage extends Omit<ProductImage, 'product_id'> {
+  // Missing for orphaned images whose product was deleted
+  product_id?: string;
+  product_name?: string;
+  // Whether the owning product has a main image; false marks products needing one
+  product_has_main_image?: boolean;
+}
+
+export type MediaFilter = 'orphaned' | 'no_main_image';
+
+export interface MediaQuery {
+  page: number;
+  pageSize: number;
+  filter?: MediaFilter;
+  search?: string;
+}
+
+export type InventoryEntryType = 'received' | 'sold' | 'returned' | 'damaged' | 'correction';
+
+// One line of a product's inventory ledger, newest first from the API. The
+// deltas of all entries add up to the product's current stock.
+export interface InventoryEntry {
+  id: string;
+  product_id: string;
+  // Set when the entry concerns a single variant
+  variant_sku?: string;
+  type: InventoryEntryType;
+  // Positive when stock was added, negative when it was removed
+  delta: number;
+  // Stock of the product, or of the variant, after this entry
+  stock_after: number;
+  reason: string;
+  // Missing for entries recorded by the system, e.g. sales
+  admin?: { id: string; name: string };
+  created_at: string;
+}
+
+export interface StockAdjustmentInput {
+  type: InventoryEntryType;
+  delta: number;
+  reason: string;
+  variant_sku?: string;
+}
+
+// Sales totals for one product over all of its orders, worked out by the
+// backend. Cancelled and fully refunded orders do not count.
+export interface ProductSales {
+  order_count: number;
+  units_sold: number;
+  revenue: number;
+}
+
 export interface ProductDetailResponse {
   product: Product;
   images: ProductImage[];
@@ -29,6 +199,52 @@ export interface ProductListResponse {
   primary_image_url?: string;
 }
 
+export type SortDirection = 'asc' | 'desc';
+
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
+export type StockAlert = 'low' | 'out';
+
+export type ProductSortField = 'name' | 'price' | 'stock_quantity' | 'updated_at';
+
+export interface ProductQuery {
+  page: number;
+  pageSize: number;
+  sort: ProductSortField;
+  direction: SortDirection;
+  search?: string;
+  category?: Product['category'];
+  status?: ProductStatus;
+  // 'low' includes products that are out of stock
+  stockAlert?: StockAlert;
+  minStock?: number;
+  maxStock?: number;
+  hasImage?: boolean;
+}
+
+export interface UploadTarget {
+  uploadUrl: string;
+  imageKey: string;
+}
+
+// A large file sent to S3 in parts, each to its own presigned URL
+export interface MultipartUploadTarget {
+  uploadId: string;
+  imageKey: string;
+  // Ordered by part number, starting at 1
+  partUrls: string[];
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+}
+
 export interface User {
   id: string;
   email: string;
@@ -42,7 +258,7 @@ export interface Order {
   id: string;
   user_id: string;
   total_amount: number;
-  status: 'pending' | 'paid' | 'shipped' | 'delivered' | 'cancelled';
+  status: OrderStatus;
   created_at: string;
   updated_at: string;
 }
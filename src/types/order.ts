@@ -26,6 +26,8 @@ export interface OrderSummary {
   };
   created_at: string;
   items: OrderItemSummary[];
+  // Sum of all refunds issued against the order
+  refunded_amount?: number;
 }
 
 export interface OrderItemSummary {
@@ -48,10 +50,21 @@ export interface OrderItemWithProduct extends OrderItem {
   };
 }
 
-export type OrderStatus = 'pending' | 'paid' | 'cancelled' | 'delivered';
+export type OrderStatus =
+  | 'pending'
+  | 'paid'
+  | 'shipped'
+  | 'delivered'
+  | 'cancelled'
+  | 'refunded'
+  | 'partially_refunded'
+  | 'returned';
 
 export interface OrderStatusUpdate {
   status: OrderStatus;
+  carrier?: string;
+  tracking_number?: string;
+  reason?: string;
 }
 
 export interface OrderFilters {
@@ -59,4 +72,88 @@ export interface OrderFilters {
   search?: string;
   dateFrom?: string;
   dateTo?: string;
+  userId?: string;
+  // Orders containing this product
+  productId?: string;
+}
+
+export interface OrderQuery extends OrderFilters {
+  page: number;
+  pageSize: number;
+}
+
+export type ShipmentStatus = 'in_transit' | 'delivered';
+
+export interface ShipmentItem {
+  order_item_id: string;
+  quantity: number;
+}
+
+export interface Shipment {
+  id: string;
+  order_id: string;
+  carrier: string;
+  tracking_number: string;
+  status: ShipmentStatus;
+  shipped_at: string;
+  delivered_at?: string;
+  items: ShipmentItem[];
+  created_at: string;
+}
+
+export interface ShipmentInput {
+  carrier: string;
+  tracking_number: string;
+  shipped_at: string;
+  items: ShipmentItem[];
+}
+
+export interface RefundItem {
+  order_item_id: string;
+  quantity: number;
+}
+
+export interface Refund {
+  id: string;
+  order_id: string;
+  amount: number;
+  reason: string;
+  restock: boolean;
+  items: RefundItem[];
+  created_at: string;
+}
+
+export interface RefundInput {
+  amount: number;
+  reason: string;
+  restock: boolean;
+  items: RefundItem[];
+}
+
+export type OrderEventType = 'created' | 'status_changed' | 'note' | 'shipment' | 'refund' | 'email_sent';
+
+export type NoteVisibility = 'internal' | 'customer';
+
+export interface OrderEventActor {
+  id: string;
+  name: string;
+}
+
+export interface OrderEvent {
+  id: string;
+  order_id: string;
+  type: OrderEventType;
+  message: string;
+  from_status?: OrderStatus;
+  to_status?: OrderStatus;
+  // Only set on notes
+  visibility?: NoteVisibility;
+  // Missing for events raised by the system
+  actor?: OrderEventActor;
+  created_at: string;
+}
+
+export interface OrderNoteInput {
+  message: string;
+  visibility: NoteVisibility;
 }